@@ -24,6 +24,7 @@ describe('WorkspaceConfigManager', () => {
   const mockConfigPath = path.resolve(process.cwd(), '.gemini-research.json');
   const mockConfig = {
     researchIds: ['research-123'],
+    researchSessions: {},
     fileSearchStores: {
       'my-store': 'stores/store-456',
     },
@@ -47,7 +48,7 @@ describe('WorkspaceConfigManager', () => {
     mockExistsSync.mockReturnValue(false);
 
     const config = WorkspaceConfigManager.load();
-    expect(config).toEqual({ researchIds: [], fileSearchStores: {}, uploadOperations: {} });
+    expect(config).toEqual({ researchIds: [], researchSessions: {}, fileSearchStores: {}, uploadOperations: {} });
   });
 
   it('should save config', () => {
@@ -89,7 +90,7 @@ describe('WorkspaceConfigManager', () => {
 
     const config = WorkspaceConfigManager.load();
 
-    expect(config).toEqual({ researchIds: [], fileSearchStores: {}, uploadOperations: {} });
+    expect(config).toEqual({ researchIds: [], researchSessions: {}, fileSearchStores: {}, uploadOperations: {} });
     expect(warnSpy).toHaveBeenCalledWith(
       expect.stringContaining('Failed to load workspace config'),
       expect.anything()
@@ -105,7 +106,7 @@ describe('WorkspaceConfigManager', () => {
 
     const config = WorkspaceConfigManager.load();
 
-    expect(config).toEqual({ researchIds: [], fileSearchStores: {}, uploadOperations: {} });
+    expect(config).toEqual({ researchIds: [], researchSessions: {}, fileSearchStores: {}, uploadOperations: {} });
     expect(warnSpy).toHaveBeenCalledWith(
       expect.stringContaining('Failed to load workspace config'),
       expect.anything()
@@ -123,6 +124,187 @@ describe('WorkspaceConfigManager', () => {
     expect(mockWriteFileSync).not.toHaveBeenCalled();
   });
 
+  describe('research sessions', () => {
+    const session = {
+      id: 'research-1',
+      input: 'Battery chemistry',
+      reportFormat: 'Executive Brief',
+      model: 'deep-research-pro-preview-12-2025',
+      fileSearchStoreNames: [],
+      status: 'in_progress',
+      tags: ['energy'],
+      startedAt: '2024-01-01T00:00:00Z',
+    };
+
+    it('should add a research session and record its ID', () => {
+      mockExistsSync.mockReturnValue(true);
+      mockReadFileSync.mockReturnValue(JSON.stringify({ researchIds: [], fileSearchStores: {} }));
+
+      WorkspaceConfigManager.addResearchSession(session);
+
+      const saved = JSON.parse(mockWriteFileSync.mock.calls[0][1] as string);
+      expect(saved.researchIds).toEqual(['research-1']);
+      expect(saved.researchSessions['research-1']).toEqual(session);
+    });
+
+    it('should update an existing research session', () => {
+      mockExistsSync.mockReturnValue(true);
+      mockReadFileSync.mockReturnValue(JSON.stringify({
+        researchIds: ['research-1'],
+        researchSessions: { 'research-1': session },
+      }));
+
+      const updated = WorkspaceConfigManager.updateResearchSession('research-1', {
+        status: 'completed',
+        completedAt: '2024-01-01T00:20:00Z',
+      });
+
+      expect(updated).toEqual({ ...session, status: 'completed', completedAt: '2024-01-01T00:20:00Z' });
+      expect(mockWriteFileSync).toHaveBeenCalled();
+    });
+
+    it('should return undefined when updating an unknown session', () => {
+      mockExistsSync.mockReturnValue(true);
+      mockReadFileSync.mockReturnValue(JSON.stringify({ researchIds: ['legacy-id'] }));
+
+      expect(WorkspaceConfigManager.updateResearchSession('legacy-id', { status: 'completed' })).toBeUndefined();
+      expect(mockWriteFileSync).not.toHaveBeenCalled();
+    });
+
+    it('should reconstruct the follow-up thread from the root session', () => {
+      mockExistsSync.mockReturnValue(true);
+      mockReadFileSync.mockReturnValue(JSON.stringify({
+        researchSessions: {
+          root: { ...session, id: 'root' },
+          child: { ...session, id: 'child', parentId: 'root' },
+          grandchild: { ...session, id: 'grandchild', parentId: 'child' },
+        },
+      }));
+
+      expect(WorkspaceConfigManager.getResearchThread('grandchild').map((s) => s.id)).toEqual([
+        'root',
+        'child',
+        'grandchild',
+      ]);
+      expect(WorkspaceConfigManager.getResearchThread('missing')).toEqual([]);
+    });
+
+    it('should remove a research session and its ID', () => {
+      mockExistsSync.mockReturnValue(true);
+      mockReadFileSync.mockReturnValue(JSON.stringify({
+        researchIds: ['research-1', 'research-2'],
+        researchSessions: { 'research-1': session },
+      }));
+
+      expect(WorkspaceConfigManager.removeResearchSession('research-1')).toBe(true);
+
+      const saved = JSON.parse(mockWriteFileSync.mock.calls[0][1] as string);
+      expect(saved.researchIds).toEqual(['research-2']);
+      expect(saved.researchSessions).toEqual({});
+    });
+
+    it('should return false when removing an unknown session', () => {
+      mockExistsSync.mockReturnValue(true);
+      mockReadFileSync.mockReturnValue(JSON.stringify({ researchIds: [] }));
+
+      expect(WorkspaceConfigManager.removeResearchSession('missing')).toBe(false);
+      expect(mockWriteFileSync).not.toHaveBeenCalled();
+    });
+
+    it('should list sessions filtered by status, tag and date, newest first', () => {
+      mockExistsSync.mockReturnValue(true);
+      mockReadFileSync.mockReturnValue(JSON.stringify({
+        researchSessions: {
+          a: { ...session, id: 'a', status: 'completed', tags: ['energy'], startedAt: '2024-01-01T00:00:00Z' },
+          b: { ...session, id: 'b', status: 'completed', tags: ['energy'], startedAt: '2024-03-01T00:00:00Z' },
+          c: { ...session, id: 'c', status: 'failed', tags: ['energy'], startedAt: '2024-02-01T00:00:00Z' },
+          d: { ...session, id: 'd', status: 'completed', tags: ['policy'], startedAt: '2024-04-01T00:00:00Z' },
+        },
+      }));
+
+      expect(WorkspaceConfigManager.listResearchSessions().map((s) => s.id)).toEqual(['d', 'b', 'c', 'a']);
+      expect(
+        WorkspaceConfigManager.listResearchSessions({ status: 'completed', tag: 'energy' }).map((s) => s.id)
+      ).toEqual(['b', 'a']);
+      expect(
+        WorkspaceConfigManager.listResearchSessions({
+          since: new Date('2024-01-15T00:00:00Z'),
+          until: new Date('2024-03-15T00:00:00Z'),
+        }).map((s) => s.id)
+      ).toEqual(['b', 'c']);
+    });
+  });
+
+  it('should return polling overrides from the workspace config', () => {
+    mockExistsSync.mockReturnValue(true);
+    mockReadFileSync.mockReturnValue(JSON.stringify({ polling: { minIntervalMs: 2000, maxRetries: 3 } }));
+
+    expect(WorkspaceConfigManager.getPollingOverrides()).toEqual({ minIntervalMs: 2000, maxRetries: 3 });
+  });
+
+  it('should return empty polling overrides when none are configured', () => {
+    mockExistsSync.mockReturnValue(true);
+    mockReadFileSync.mockReturnValue(JSON.stringify({}));
+
+    expect(WorkspaceConfigManager.getPollingOverrides()).toEqual({});
+  });
+
+  it('should return configured output directories', () => {
+    mockExistsSync.mockReturnValue(true);
+    mockReadFileSync.mockReturnValue(JSON.stringify({ outputDirectories: ['/shared/reports'] }));
+
+    expect(WorkspaceConfigManager.getOutputDirectories()).toEqual(['/shared/reports']);
+  });
+
+  it('should return no output directories when none are configured', () => {
+    mockExistsSync.mockReturnValue(true);
+    mockReadFileSync.mockReturnValue(JSON.stringify({}));
+
+    expect(WorkspaceConfigManager.getOutputDirectories()).toEqual([]);
+  });
+
+  it('should return the configured reports directory', () => {
+    mockExistsSync.mockReturnValue(true);
+    mockReadFileSync.mockReturnValue(JSON.stringify({ reportsDirectory: 'docs/research' }));
+
+    expect(WorkspaceConfigManager.getReportsDirectory()).toBe('docs/research');
+  });
+
+  it('should return configured cache limits', () => {
+    mockExistsSync.mockReturnValue(true);
+    mockReadFileSync.mockReturnValue(JSON.stringify({ cache: { maxEntries: 10 } }));
+
+    expect(WorkspaceConfigManager.getCacheLimits()).toEqual({ maxEntries: 10 });
+  });
+
+  it('should keep both stores when a display name is reused', () => {
+    mockExistsSync.mockReturnValue(true);
+    mockReadFileSync.mockReturnValue(JSON.stringify({ fileSearchStores: { Docs: 'fileSearchStores/a' } }));
+
+    WorkspaceConfigManager.addFileSearchStore('Docs', 'fileSearchStores/b');
+
+    const written = JSON.parse(mockWriteFileSync.mock.calls[0][1] as string);
+    expect(written.fileSearchStores).toEqual({ Docs: ['fileSearchStores/a', 'fileSearchStores/b'] });
+
+    mockReadFileSync.mockReturnValue(JSON.stringify(written));
+    expect(WorkspaceConfigManager.getFileSearchStores()).toEqual({ Docs: ['fileSearchStores/a', 'fileSearchStores/b'] });
+
+    WorkspaceConfigManager.removeFileSearchStore('fileSearchStores/a');
+    expect(JSON.parse(mockWriteFileSync.mock.calls[1][1] as string).fileSearchStores).toEqual({ Docs: 'fileSearchStores/b' });
+  });
+
+  it('should remove every alias of a deleted store', () => {
+    mockExistsSync.mockReturnValue(true);
+    mockReadFileSync.mockReturnValue(JSON.stringify({
+      fileSearchStores: { Docs: 'fileSearchStores/a', docs: 'fileSearchStores/a', Other: 'fileSearchStores/b' },
+    }));
+
+    WorkspaceConfigManager.removeFileSearchStore('fileSearchStores/a');
+
+    const written = JSON.parse(mockWriteFileSync.mock.calls[0][1] as string);
+    expect(written.fileSearchStores).toEqual({ Other: 'fileSearchStores/b' });
+  });
+
   it('should get upload operation by id', () => {
     const mockOperation = {
       id: 'op-123',
@@ -149,6 +331,169 @@ describe('WorkspaceConfigManager', () => {
     expect(operation).toEqual(mockOperation);
   });
 
+  it('should merge extension fields into an upload operation', () => {
+    mockExistsSync.mockReturnValue(true);
+    mockReadFileSync.mockReturnValue(JSON.stringify({
+      uploadOperations: {
+        'op-123': {
+          id: 'op-123',
+          status: 'in_progress',
+          path: '/test/path',
+          storeName: 'store-1',
+          smartSync: true,
+          totalFiles: 2,
+          completedFiles: 1,
+          skippedFiles: 0,
+          failedFiles: 0,
+          startedAt: '2024-01-01T00:00:00Z',
+        },
+      },
+    }));
+
+    const updated = WorkspaceConfigManager.updateUploadOperation('op-123', { mirror: true, deletedFiles: 3 });
+
+    expect(updated).toMatchObject({ id: 'op-123', completedFiles: 1, mirror: true, deletedFiles: 3 });
+    expect(WorkspaceConfigManager.updateUploadOperation('missing', { deletedFiles: 1 })).toBeUndefined();
+  });
+
+  it('should mark uploads whose server process is gone as interrupted', () => {
+    const operation = (id: string, status: string, pid?: number): Record<string, unknown> => ({
+      id,
+      status,
+      path: '/test/dir',
+      storeName: 'store-1',
+      smartSync: false,
+      totalFiles: 2,
+      completedFiles: 1,
+      skippedFiles: 0,
+      failedFiles: 0,
+      failedFilesList: [],
+      startedAt: '2024-01-01T00:00:00Z',
+      pid,
+    });
+    mockExistsSync.mockReturnValue(true);
+    mockReadFileSync.mockReturnValue(JSON.stringify({
+      uploadOperations: {
+        legacy: operation('legacy', 'in_progress'),
+        orphaned: operation('orphaned', 'pending', 111),
+        running: operation('running', 'in_progress', 222),
+        done: operation('done', 'completed', 111),
+      },
+    }));
+
+    const interrupted = WorkspaceConfigManager.markInterruptedUploadOperations((pid) => pid === 222);
+
+    expect(interrupted).toEqual(['legacy', 'orphaned']);
+    const saved = JSON.parse(mockWriteFileSync.mock.calls[0][1] as string);
+    expect(saved.uploadOperations.legacy.status).toBe('interrupted');
+    expect(saved.uploadOperations.orphaned.status).toBe('interrupted');
+    expect(saved.uploadOperations.running.status).toBe('in_progress');
+    expect(saved.uploadOperations.done.status).toBe('completed');
+  });
+
+  describe('chat sessions', () => {
+    const chatSession = {
+      id: 'chat-1',
+      storeNames: ['stores/123'],
+      maxTurns: 2,
+      turns: [
+        { query: 'Q1', answer: 'A1', askedAt: '2026-01-01T00:00:00.000Z' },
+        { query: 'Q2', answer: 'A2', askedAt: '2026-01-01T00:01:00.000Z' },
+      ],
+      droppedTurns: 0,
+      startedAt: '2026-01-01T00:00:00.000Z',
+    };
+
+    it('should keep only the latest maxTurns turns', () => {
+      mockExistsSync.mockReturnValue(true);
+      mockReadFileSync.mockReturnValue(JSON.stringify({ researchIds: [], chatSessions: { 'chat-1': chatSession } }));
+
+      const updated = WorkspaceConfigManager.appendChatTurn('chat-1', { query: 'Q3', answer: 'A3', askedAt: '2026-01-01T00:02:00.000Z' });
+
+      expect(updated?.turns.map((turn) => turn.query)).toEqual(['Q2', 'Q3']);
+      expect(updated?.droppedTurns).toBe(1);
+      expect(updated?.updatedAt).toBe('2026-01-01T00:02:00.000Z');
+      const saved = JSON.parse(mockWriteFileSync.mock.calls[0][1] as string);
+      expect(saved.chatSessions['chat-1']).toEqual(updated);
+    });
+
+    it('should not append to an unknown session', () => {
+      mockExistsSync.mockReturnValue(true);
+      mockReadFileSync.mockReturnValue(JSON.stringify({ researchIds: [] }));
+
+      expect(WorkspaceConfigManager.appendChatTurn('missing', chatSession.turns[0])).toBeUndefined();
+      expect(mockWriteFileSync).not.toHaveBeenCalled();
+    });
+
+    it('should remove a chat session', () => {
+      mockExistsSync.mockReturnValue(true);
+      mockReadFileSync.mockReturnValue(JSON.stringify({ researchIds: [], chatSessions: { 'chat-1': chatSession } }));
+
+      expect(WorkspaceConfigManager.removeChatSession('chat-1')).toBe(true);
+      expect(WorkspaceConfigManager.removeChatSession('chat-2')).toBe(false);
+
+      const saved = JSON.parse(mockWriteFileSync.mock.calls[0][1] as string);
+      expect(saved.chatSessions).toEqual({});
+    });
+  });
+
+  describe('upload history', () => {
+    const operation = (id: string, status: string, startedAt: string, overrides: Record<string, unknown> = {}): Record<string, unknown> => ({
+      id,
+      status,
+      path: '/test/dir',
+      storeName: 'store-1',
+      smartSync: false,
+      totalFiles: 1,
+      completedFiles: 1,
+      skippedFiles: 0,
+      failedFiles: 0,
+      failedFilesList: [],
+      startedAt,
+      ...overrides,
+    });
+    const operations = {
+      a: operation('a', 'completed', '2024-01-01T00:00:00Z', { completedAt: '2024-01-01T00:05:00Z' }),
+      b: operation('b', 'failed', '2024-02-01T00:00:00Z', { storeName: 'store-2' }),
+      c: operation('c', 'completed', '2024-03-01T00:00:00Z'),
+      d: operation('d', 'interrupted', '2023-12-01T00:00:00Z'),
+      e: operation('e', 'in_progress', '2024-03-02T00:00:00Z'),
+    };
+
+    beforeEach(() => {
+      mockExistsSync.mockReturnValue(true);
+      mockReadFileSync.mockReturnValue(JSON.stringify({ uploadOperations: operations, uploadRetention: { maxAgeDays: 7 } }));
+    });
+
+    it('should list upload operations filtered by status, store and date, newest first', () => {
+      const ids = (filter = {}): string[] =>
+        WorkspaceConfigManager.listUploadOperations(filter).map((record) => record.id);
+
+      expect(ids()).toEqual(['e', 'c', 'b', 'a', 'd']);
+      expect(ids({ status: 'completed' })).toEqual(['c', 'a']);
+      expect(ids({ storeName: 'store-2' })).toEqual(['b']);
+      expect(ids({ since: new Date('2024-01-15'), until: new Date('2024-03-01') })).toEqual(['c', 'b']);
+    });
+
+    it('should merge configured retention with the defaults', () => {
+      expect(WorkspaceConfigManager.getUploadRetention()).toEqual({ maxOperations: 100, maxAgeDays: 7 });
+    });
+
+    it('should prune only finished operations beyond the limits', () => {
+      const removed = (options: Record<string, unknown>): string[] =>
+        WorkspaceConfigManager.pruneUploadOperations(options).map((record) => record.id);
+
+      expect(removed({ keep: 1, dryRun: true })).toEqual(['b', 'a']);
+      expect(removed({ olderThanDays: 40, now: new Date('2024-03-05T00:00:00Z'), dryRun: true })).toEqual(['a']);
+      expect(removed({ statuses: ['failed'], dryRun: true })).toEqual(['b']);
+      expect(mockWriteFileSync).not.toHaveBeenCalled();
+
+      expect(removed({})).toEqual(['c', 'b', 'a']);
+      const saved = JSON.parse(mockWriteFileSync.mock.calls[0][1] as string);
+      expect(Object.keys(saved.uploadOperations)).toEqual(['d', 'e']);
+    });
+  });
+
   it('should return undefined for non-existent upload operation', () => {
     mockExistsSync.mockReturnValue(true);
     mockReadFileSync.mockReturnValue(JSON.stringify({ researchIds: [], fileSearchStores: {}, uploadOperations: {} }));
@@ -12,9 +12,44 @@ const FailedFileSchema = z.object({
   error: z.string(),
 });
 
+/** Whitespace chunking applied to every document of an upload */
+const ChunkingSchema = z.object({
+  maxTokensPerChunk: z.number().optional(),
+  maxOverlapTokens: z.number().optional(),
+});
+
+const FileTimingSchema = z.object({
+  path: z.string(),
+  durationMs: z.number(),
+  bytes: z.number(),
+});
+
+/** Throughput counters for the current run of an upload; a resume starts a new run */
+const UploadTimingSchema = z.object({
+  runStartedAt: z.string(),
+  /** Files uploaded, skipped or failed in this run */
+  filesProcessed: z.number(),
+  filesUploaded: z.number(),
+  bytesUploaded: z.number(),
+  /** Sum of the per-file upload durations, including retries */
+  uploadMs: z.number(),
+  retries: z.number(),
+  slowestFiles: z.array(FileTimingSchema).default([]),
+});
+
+// 'cancelled' and 'interrupted' are set by this extension, never by gemini-utils
+export const UPLOAD_OPERATION_STATUSES = [
+  'pending',
+  'in_progress',
+  'completed',
+  'failed',
+  'cancelled',
+  'interrupted',
+] as const;
+
 const UploadOperationSchema = z.object({
   id: z.string(),
-  status: z.enum(['pending', 'in_progress', 'completed', 'failed']),
+  status: z.enum(UPLOAD_OPERATION_STATUSES),
   path: z.string(),
   storeName: z.string(),
   smartSync: z.boolean(),
@@ -26,22 +61,173 @@ const UploadOperationSchema = z.object({
   startedAt: z.string(),
   completedAt: z.string().optional(),
   error: z.string().optional(),
+  mirror: z.boolean().optional(),
+  deletedFiles: z.number().optional(),
+  skippedByRules: z.number().optional(),
+  include: z.array(z.string()).optional(),
+  exclude: z.array(z.string()).optional(),
+  /** Relative paths already uploaded or skipped, so a resumed upload can leave them out */
+  processedFiles: z.array(z.string()).optional(),
+  /** Server process running the upload, used to detect uploads orphaned by a restart */
+  pid: z.number().optional(),
+  /** Set on a retry: the operation whose failed files it re-attempts */
+  parentOperationId: z.string().optional(),
+  /** Set on a retried operation: its retries, oldest first */
+  retryOperationIds: z.array(z.string()).optional(),
+  /** Fixed list of relative paths to upload instead of scanning the directory */
+  retryFiles: z.array(z.string()).optional(),
+  mimeTypeFallback: z.string().optional(),
+  /** Upload text files without a native MIME type as text/plain under a filename header */
+  convert: z.boolean().optional(),
+  concurrency: z.number().optional(),
+  requestsPerMinute: z.number().optional(),
+  /** Custom metadata for every file, before per-directory sidecars */
+  metadata: z.record(z.string(), z.string()).optional(),
+  chunking: ChunkingSchema.optional(),
+  timing: UploadTimingSchema.optional(),
+});
+
+const ResearchSessionSchema = z.object({
+  id: z.string(),
+  input: z.string(),
+  reportFormat: z.string().optional(),
+  model: z.string().optional(),
+  fileSearchStoreNames: z.array(z.string()).default([]),
+  status: z.string(),
+  tags: z.array(z.string()).default([]),
+  startedAt: z.string(),
+  updatedAt: z.string().optional(),
+  completedAt: z.string().optional(),
+  parentId: z.string().optional(),
+  archivedReport: z.object({ path: z.string(), title: z.string() }).optional(),
+});
+
+const ChatTurnSchema = z.object({
+  query: z.string(),
+  answer: z.string(),
+  askedAt: z.string(),
+});
+
+/** A file search conversation; only the latest `maxTurns` turns are kept and resent */
+const ChatSessionSchema = z.object({
+  id: z.string(),
+  storeNames: z.array(z.string()),
+  model: z.string().optional(),
+  temperature: z.number().optional(),
+  systemInstruction: z.string().optional(),
+  metadataFilter: z.string().optional(),
+  maxTurns: z.number(),
+  turns: z.array(ChatTurnSchema).default([]),
+  /** Turns dropped from the start of the conversation to stay within maxTurns */
+  droppedTurns: z.number().default(0),
+  startedAt: z.string(),
+  updatedAt: z.string().optional(),
+});
+
+const PollingOverridesSchema = z.object({
+  minIntervalMs: z.number().nonnegative().optional(),
+  maxIntervalMs: z.number().nonnegative().optional(),
+  multiplier: z.number().min(1).optional(),
+  maxRetries: z.number().int().nonnegative().optional(),
+});
+
+const CacheLimitsSchema = z.object({
+  maxEntries: z.number().int().positive().optional(),
+  maxBytes: z.number().int().positive().optional(),
+});
+
+const UploadRetentionSchema = z.object({
+  maxOperations: z.number().int().positive().optional(),
+  maxAgeDays: z.number().positive().optional(),
 });
 
 export const WorkspaceConfigSchema = z.object({
   researchIds: z.array(z.string()).default([]),
-  fileSearchStores: z.record(z.string(), z.string()).default({}),
+  researchSessions: z.record(z.string(), ResearchSessionSchema).default({}),
+  /** Display name → resource name; a list when several stores share the display name */
+  fileSearchStores: z.record(z.string(), z.union([z.string(), z.array(z.string())])).default({}),
   uploadOperations: z.record(z.string(), UploadOperationSchema).default({}),
+  polling: PollingOverridesSchema.optional(),
+  outputDirectories: z.array(z.string()).optional(),
+  reportsDirectory: z.string().optional(),
+  cache: CacheLimitsSchema.optional(),
+  uploadRetention: UploadRetentionSchema.optional(),
+  chatSessions: z.record(z.string(), ChatSessionSchema).optional(),
 });
 
 export type WorkspaceConfig = z.infer<typeof WorkspaceConfigSchema>;
+export type ResearchSession = z.infer<typeof ResearchSessionSchema>;
+export type PollingOverrides = z.infer<typeof PollingOverridesSchema>;
+/** Upload operation as persisted in the workspace, including fields this extension adds */
+export type UploadOperationRecord = z.infer<typeof UploadOperationSchema>;
+export type CacheLimits = z.infer<typeof CacheLimitsSchema>;
+export type UploadRetention = z.infer<typeof UploadRetentionSchema>;
+export type UploadTiming = z.infer<typeof UploadTimingSchema>;
+export type UploadChunking = z.infer<typeof ChunkingSchema>;
+export type FileTiming = z.infer<typeof FileTimingSchema>;
+export type UploadOperationStatus = UploadOperationRecord['status'];
+export type ChatSession = z.infer<typeof ChatSessionSchema>;
+export type ChatTurn = z.infer<typeof ChatTurnSchema>;
+
+export const DEFAULT_CHAT_MAX_TURNS = 20;
+
+/** Finished upload operations are pruned once they fall outside either limit */
+export const DEFAULT_UPLOAD_RETENTION: Required<UploadRetention> = { maxOperations: 100, maxAgeDays: 30 };
+
+const FINISHED_UPLOAD_STATUSES: UploadOperationStatus[] = ['completed', 'failed', 'cancelled'];
+
+/**
+ * Filter criteria for listing research sessions. Dates are compared against `startedAt`.
+ */
+export interface ResearchSessionFilter {
+  status?: string;
+  tag?: string;
+  since?: Date;
+  until?: Date;
+}
+
+/**
+ * Filter criteria for listing upload operations. Dates are compared against `startedAt`.
+ */
+export interface UploadOperationFilter {
+  status?: UploadOperationStatus;
+  storeName?: string;
+  since?: Date;
+  until?: Date;
+}
+
+/**
+ * Which finished upload operations to remove. With neither `keep` nor `olderThanDays`,
+ * every finished operation matching `statuses` is removed.
+ */
+export interface UploadPruneOptions {
+  /** Keep this many of the most recently finished operations */
+  keep?: number;
+  /** Remove operations that finished more than this many days ago */
+  olderThanDays?: number;
+  /** Statuses eligible for removal (default: completed, failed and cancelled) */
+  statuses?: UploadOperationStatus[];
+  /** Report what would be removed without saving */
+  dryRun?: boolean;
+  now?: Date;
+}
+
+function isProcessRunning(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error: unknown) {
+    // EPERM means the process exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
 
 export class WorkspaceConfigManager {
   private static configPath = path.resolve(process.cwd(), '.gemini-research.json');
 
   static load(): WorkspaceConfig {
     if (!fs.existsSync(this.configPath)) {
-      const defaultConfig: WorkspaceConfig = { researchIds: [], fileSearchStores: {}, uploadOperations: {} };
+      const defaultConfig = WorkspaceConfigSchema.parse({});
       this.save(defaultConfig);
       return defaultConfig;
     }
@@ -53,7 +239,7 @@ export class WorkspaceConfigManager {
     } catch (error) {
       // If file is corrupt, safer to return default to avoid crashing, but warn the user
       console.warn(`Failed to load workspace config from ${this.configPath}:`, error);
-      return { researchIds: [], fileSearchStores: {}, uploadOperations: {} };
+      return WorkspaceConfigSchema.parse({});
     }
   }
 
@@ -69,13 +255,150 @@ export class WorkspaceConfigManager {
     }
   }
 
+  static addResearchSession(session: ResearchSession): void {
+    const config = this.load();
+    if (!config.researchIds.includes(session.id)) {
+      config.researchIds.push(session.id);
+    }
+    config.researchSessions[session.id] = session;
+    this.save(config);
+  }
+
+  static getResearchSession(id: string): ResearchSession | undefined {
+    const config = this.load();
+    return config.researchSessions[id];
+  }
+
+  static updateResearchSession(
+    id: string,
+    updates: Partial<Omit<ResearchSession, 'id'>>
+  ): ResearchSession | undefined {
+    const config = this.load();
+    const existing = config.researchSessions[id];
+    if (!existing) {
+      return undefined;
+    }
+    const updated = { ...existing, ...updates };
+    config.researchSessions[id] = updated;
+    this.save(config);
+    return updated;
+  }
+
+  /**
+   * Returns the chain of sessions from the root research down to the given session,
+   * following `parentId` links. Returns an empty array if the session is unknown.
+   */
+  static getResearchThread(id: string): ResearchSession[] {
+    const config = this.load();
+    const thread: ResearchSession[] = [];
+    const seen = new Set<string>();
+    let current: ResearchSession | undefined = config.researchSessions[id];
+    while (current && !seen.has(current.id)) {
+      seen.add(current.id);
+      thread.unshift(current);
+      current = current.parentId ? config.researchSessions[current.parentId] : undefined;
+    }
+    return thread;
+  }
+
+  /**
+   * Removes a research session and its ID. Returns false if nothing was recorded for the ID.
+   */
+  static removeResearchSession(id: string): boolean {
+    const config = this.load();
+    if (!config.researchSessions[id] && !config.researchIds.includes(id)) {
+      return false;
+    }
+    delete config.researchSessions[id];
+    config.researchIds = config.researchIds.filter((researchId) => researchId !== id);
+    this.save(config);
+    return true;
+  }
+
+  /**
+   * Lists recorded research sessions matching the filter, newest first.
+   */
+  static listResearchSessions(filter: ResearchSessionFilter = {}): ResearchSession[] {
+    const config = this.load();
+    return Object.values(config.researchSessions)
+      .filter((session) => {
+        if (filter.status && session.status !== filter.status) return false;
+        if (filter.tag && !session.tags.includes(filter.tag)) return false;
+        const startedAt = new Date(session.startedAt);
+        if (filter.since && startedAt < filter.since) return false;
+        if (filter.until && startedAt > filter.until) return false;
+        return true;
+      })
+      .sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+  }
+
+  /**
+   * Records an alias for a store. An alias already naming another store keeps both, so
+   * that lookups by it can be reported as ambiguous.
+   */
   static addFileSearchStore(name: string, resourceName: string): void {
     const config = this.load();
-    config.fileSearchStores[name] = resourceName;
+    const existing = [config.fileSearchStores[name] ?? []].flat();
+    if (existing.includes(resourceName)) {
+      return;
+    }
+    config.fileSearchStores[name] = existing.length > 0 ? [...existing, resourceName] : resourceName;
+    this.save(config);
+  }
+
+  /**
+   * Returns each alias with the resource names of the stores it names.
+   */
+  static getFileSearchStores(): Record<string, string[]> {
+    const config = this.load();
+    return Object.fromEntries(
+      Object.entries(config.fileSearchStores).map(([name, resources]) => [name, [resources].flat()])
+    );
+  }
+
+  /**
+   * Removes the given store resource name from every alias, dropping aliases left empty.
+   */
+  static removeFileSearchStore(resourceName: string): void {
+    const config = this.load();
+    let changed = false;
+    const remaining: Record<string, string | string[]> = {};
+    for (const [name, resources] of Object.entries(config.fileSearchStores)) {
+      const kept = [resources].flat().filter((resource) => resource !== resourceName);
+      changed ||= kept.length !== [resources].flat().length;
+      if (kept.length > 0) remaining[name] = kept.length === 1 ? kept[0] : kept;
+    }
+    if (!changed) {
+      return;
+    }
+    config.fileSearchStores = remaining;
     this.save(config);
   }
 
-  static getUploadOperation(id: string): UploadOperation | undefined {
+  static getPollingOverrides(): PollingOverrides {
+    const config = this.load();
+    return config.polling ?? {};
+  }
+
+  static getOutputDirectories(): string[] {
+    const config = this.load();
+    return config.outputDirectories ?? [];
+  }
+
+  /**
+   * Directory completed research reports are archived to, if configured.
+   */
+  static getReportsDirectory(): string | undefined {
+    const config = this.load();
+    return config.reportsDirectory;
+  }
+
+  static getCacheLimits(): CacheLimits {
+    const config = this.load();
+    return config.cache ?? {};
+  }
+
+  static getUploadOperation(id: string): UploadOperationRecord | undefined {
     const config = this.load();
     return config.uploadOperations[id];
   }
@@ -86,10 +409,151 @@ export class WorkspaceConfigManager {
     this.save(config);
   }
 
-  static getAllUploadOperations(): Record<string, UploadOperation> {
+  /**
+   * Merges extension-specific fields into a stored upload operation.
+   */
+  static updateUploadOperation(
+    id: string,
+    updates: Partial<Omit<UploadOperationRecord, 'id'>>
+  ): UploadOperationRecord | undefined {
+    const config = this.load();
+    const existing = config.uploadOperations[id];
+    if (!existing) {
+      return undefined;
+    }
+    const updated = { ...existing, ...updates };
+    config.uploadOperations[id] = updated;
+    this.save(config);
+    return updated;
+  }
+
+  static getAllUploadOperations(): Record<string, UploadOperationRecord> {
     const config = this.load();
     return config.uploadOperations;
   }
+
+  /**
+   * Lists recorded upload operations matching the filter, newest first.
+   */
+  static listUploadOperations(filter: UploadOperationFilter = {}): UploadOperationRecord[] {
+    const config = this.load();
+    return Object.values(config.uploadOperations)
+      .filter((operation) => {
+        if (filter.status && operation.status !== filter.status) return false;
+        if (filter.storeName && operation.storeName !== filter.storeName) return false;
+        const startedAt = new Date(operation.startedAt);
+        if (filter.since && startedAt < filter.since) return false;
+        if (filter.until && startedAt > filter.until) return false;
+        return true;
+      })
+      .sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+  }
+
+  /**
+   * Upload history limits, falling back to DEFAULT_UPLOAD_RETENTION for unset values.
+   */
+  static getUploadRetention(): Required<UploadRetention> {
+    const config = this.load();
+    return { ...DEFAULT_UPLOAD_RETENTION, ...config.uploadRetention };
+  }
+
+  /**
+   * Removes finished upload operations and returns the removed records. Pending,
+   * in-progress and interrupted operations are never removed.
+   */
+  static pruneUploadOperations(options: UploadPruneOptions = {}): UploadOperationRecord[] {
+    const config = this.load();
+    const statuses = (options.statuses ?? FINISHED_UPLOAD_STATUSES).filter((status) =>
+      FINISHED_UPLOAD_STATUSES.includes(status)
+    );
+    const finishedAt = (operation: UploadOperationRecord): string => operation.completedAt ?? operation.startedAt;
+    const candidates = Object.values(config.uploadOperations)
+      .filter((operation) => statuses.includes(operation.status))
+      .sort((a, b) => finishedAt(b).localeCompare(finishedAt(a)));
+
+    const unlimited = options.keep === undefined && options.olderThanDays === undefined;
+    const cutoff = options.olderThanDays === undefined
+      ? undefined
+      : (options.now ?? new Date()).getTime() - options.olderThanDays * 24 * 60 * 60 * 1000;
+    const removed = candidates.filter((operation, index) =>
+      unlimited ||
+      (options.keep !== undefined && index >= options.keep) ||
+      (cutoff !== undefined && new Date(finishedAt(operation)).getTime() < cutoff)
+    );
+
+    if (removed.length > 0 && !options.dryRun) {
+      for (const operation of removed) {
+        delete config.uploadOperations[operation.id];
+      }
+      this.save(config);
+    }
+    return removed;
+  }
+
+  /**
+   * Marks pending and in-progress upload operations as `interrupted` when the server
+   * process that ran them is gone. Call on startup, before this process starts uploads.
+   * Returns the IDs of the operations marked.
+   */
+  static markInterruptedUploadOperations(isRunning: (pid: number) => boolean = isProcessRunning): string[] {
+    const config = this.load();
+    const interrupted: string[] = [];
+    for (const operation of Object.values(config.uploadOperations)) {
+      if (operation.status !== 'pending' && operation.status !== 'in_progress') continue;
+      if (operation.pid !== undefined && operation.pid !== process.pid && isRunning(operation.pid)) continue;
+      operation.status = 'interrupted';
+      interrupted.push(operation.id);
+    }
+    if (interrupted.length > 0) {
+      this.save(config);
+    }
+    return interrupted;
+  }
+
+  static addChatSession(session: ChatSession): void {
+    const config = this.load();
+    config.chatSessions = { ...config.chatSessions, [session.id]: session };
+    this.save(config);
+  }
+
+  static getChatSession(id: string): ChatSession | undefined {
+    return this.load().chatSessions?.[id];
+  }
+
+  /**
+   * Appends a turn to a chat session, dropping the oldest turns beyond its maxTurns.
+   */
+  static appendChatTurn(id: string, turn: ChatTurn): ChatSession | undefined {
+    const config = this.load();
+    const existing = config.chatSessions?.[id];
+    if (!existing) {
+      return undefined;
+    }
+    const turns = [...existing.turns, turn];
+    const dropped = Math.max(0, turns.length - existing.maxTurns);
+    const updated: ChatSession = {
+      ...existing,
+      turns: turns.slice(dropped),
+      droppedTurns: existing.droppedTurns + dropped,
+      updatedAt: turn.askedAt,
+    };
+    config.chatSessions = { ...config.chatSessions, [id]: updated };
+    this.save(config);
+    return updated;
+  }
+
+  /**
+   * Removes a chat session. Returns false if there is no session with the ID.
+   */
+  static removeChatSession(id: string): boolean {
+    const config = this.load();
+    if (!config.chatSessions?.[id]) {
+      return false;
+    }
+    delete config.chatSessions[id];
+    this.save(config);
+    return true;
+  }
 }
 
 /**
@@ -97,8 +561,9 @@ export class WorkspaceConfigManager {
  * This adapter bridges gemini-utils' UploadOperationManager with our disk-based persistence.
  */
 export class WorkspaceOperationStorage implements OperationStorage {
+  // Records may carry the extension's extra statuses; gemini-utils only reads them back
   get(id: string): UploadOperation | undefined {
-    return WorkspaceConfigManager.getUploadOperation(id);
+    return WorkspaceConfigManager.getUploadOperation(id) as UploadOperation | undefined;
   }
 
   set(id: string, operation: UploadOperation): void {
@@ -106,6 +571,6 @@ export class WorkspaceOperationStorage implements OperationStorage {
   }
 
   getAll(): Record<string, UploadOperation> {
-    return WorkspaceConfigManager.getAllUploadOperations();
+    return WorkspaceConfigManager.getAllUploadOperations() as Record<string, UploadOperation>;
   }
 }
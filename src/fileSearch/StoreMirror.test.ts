@@ -0,0 +1,174 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { FileSearchDocument, FileSearchManager, FileUploader } from '@allenhutchison/gemini-utils';
+import { MirrorPlan, MirrorProgressEvent, StoreMirror, excludeFromPlan, planMirror, restrictPlan } from './StoreMirror';
+
+function document(name: string, filePath?: string, hash?: string, uploadRoot: string | null = '/root'): FileSearchDocument {
+  const customMetadata = [];
+  if (filePath) customMetadata.push({ key: 'path', stringValue: filePath });
+  if (hash) customMetadata.push({ key: 'hash', stringValue: hash });
+  if (filePath && uploadRoot) customMetadata.push({ key: 'upload_root', stringValue: uploadRoot });
+  return { name, customMetadata };
+}
+
+describe('planMirror', () => {
+  it('should classify local files and remote documents', () => {
+    const local = new Map([
+      ['new.md', 'h-new'],
+      ['same.md', 'h-same'],
+      ['changed.md', 'h-changed-2'],
+    ]);
+    const remote = [
+      document('docs/same', 'same.md', 'h-same'),
+      document('docs/same-dup', 'same.md', 'h-old'),
+      document('docs/changed', 'changed.md', 'h-changed-1'),
+      document('docs/gone', 'gone.md', 'h-gone'),
+      document('docs/manual'),
+      document('docs/other-root', 'gone.md', 'h-other', '/specs'),
+      document('docs/plain-upload', 'changed.md', 'h-plain', null),
+    ];
+
+    expect(planMirror(local, remote, '/root')).toEqual({
+      add: ['new.md'],
+      update: ['changed.md'],
+      unchanged: ['same.md'],
+      delete: [
+        { path: 'same.md', documentName: 'docs/same-dup', reason: 'superseded' },
+        { path: 'changed.md', documentName: 'docs/changed', reason: 'superseded' },
+        { path: 'gone.md', documentName: 'docs/gone', reason: 'removed' },
+      ],
+      unmanaged: 3,
+      skippedByRules: 0,
+    });
+  });
+});
+
+describe('StoreMirror.apply', () => {
+  let rootDir: string;
+  const plan: MirrorPlan = {
+    add: ['new.md'],
+    update: ['changed.md', 'broken.md'],
+    unchanged: [],
+    delete: [
+      { path: 'changed.md', documentName: 'docs/changed', reason: 'superseded' },
+      { path: 'broken.md', documentName: 'docs/broken', reason: 'superseded' },
+      { path: 'gone.md', documentName: 'docs/gone', reason: 'removed' },
+    ],
+    unmanaged: 0,
+    skippedByRules: 0,
+  };
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'store-mirror-'));
+    for (const file of ['new.md', 'changed.md', 'broken.md']) {
+      fs.writeFileSync(path.join(rootDir, file), file);
+    }
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  it('should upload before deleting and keep old copies of files that failed to upload', async () => {
+    const calls: string[] = [];
+    const uploadContent = jest.fn(async (content: { relativePath: string }): Promise<void> => {
+      calls.push(`upload ${content.relativePath}`);
+      if (content.relativePath === 'broken.md') throw new Error('too large');
+    });
+    const deleteDocument = jest.fn(async (name: string): Promise<void> => {
+      calls.push(`delete ${name}`);
+    });
+    const mirror = new StoreMirror(
+      { uploadContent } as unknown as FileUploader,
+      { deleteDocument } as unknown as FileSearchManager
+    );
+    const events: MirrorProgressEvent[] = [];
+
+    await mirror.apply(plan, rootDir, 'stores/1', (event) => events.push(event), { metadataFor: () => ({ project: 'atlas' }) });
+
+    expect(uploadContent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        relativePath: 'new.md',
+        customMetadata: [{ key: 'project', stringValue: 'atlas' }, { key: 'upload_root', stringValue: path.resolve(rootDir) }],
+      }),
+      'stores/1',
+      { chunkingConfig: undefined }
+    );
+    expect(calls.slice(3)).toEqual(['delete docs/changed', 'delete docs/gone']);
+    expect(events.map((event) => event.type)).toEqual([
+      'file_complete',
+      'file_complete',
+      'file_error',
+      'document_deleted',
+      'document_deleted',
+    ]);
+  });
+
+  it('should start no further uploads or deletions once aborted', async () => {
+    const controller = new AbortController();
+    const uploadContent = jest.fn(async (): Promise<void> => {
+      controller.abort();
+    });
+    const deleteDocument = jest.fn();
+    const mirror = new StoreMirror(
+      { uploadContent } as unknown as FileUploader,
+      { deleteDocument } as unknown as FileSearchManager
+    );
+
+    await mirror.apply(plan, rootDir, 'stores/1', () => {}, { signal: controller.signal });
+
+    // The first batch was already in flight when the abort came
+    expect(uploadContent).toHaveBeenCalledTimes(3);
+    expect(deleteDocument).not.toHaveBeenCalled();
+  });
+});
+
+describe('excludeFromPlan', () => {
+  it('should drop uploads and superseded deletions for the given paths', () => {
+    const plan: MirrorPlan = {
+      add: ['new.md', 'failed-new.md'],
+      update: ['failed.md'],
+      unchanged: ['same.md'],
+      delete: [
+        { path: 'failed.md', documentName: 'docs/failed', reason: 'superseded' },
+        { path: 'failed-gone.md', documentName: 'docs/gone', reason: 'removed' },
+      ],
+      unmanaged: 0,
+      skippedByRules: 1,
+    };
+
+    expect(excludeFromPlan(plan, new Set(['failed-new.md', 'failed.md', 'failed-gone.md']))).toEqual({
+      ...plan,
+      add: ['new.md'],
+      update: [],
+      delete: [{ path: 'failed-gone.md', documentName: 'docs/gone', reason: 'removed' }],
+    });
+  });
+});
+
+describe('restrictPlan', () => {
+  it('should keep only the given paths and the deletion of their superseded copies', () => {
+    const plan: MirrorPlan = {
+      add: ['new.md', 'retried-new.md'],
+      update: ['retried.md', 'other.md'],
+      unchanged: ['retried-same.md', 'same.md'],
+      delete: [
+        { path: 'retried.md', documentName: 'docs/retried', reason: 'superseded' },
+        { path: 'other.md', documentName: 'docs/other', reason: 'superseded' },
+        { path: 'gone.md', documentName: 'docs/gone', reason: 'removed' },
+      ],
+      unmanaged: 0,
+      skippedByRules: 1,
+    };
+
+    expect(restrictPlan(plan, new Set(['retried-new.md', 'retried.md', 'retried-same.md', 'gone.md']))).toEqual({
+      ...plan,
+      add: ['retried-new.md'],
+      update: ['retried.md'],
+      unchanged: ['retried-same.md'],
+      delete: [{ path: 'retried.md', documentName: 'docs/retried', reason: 'superseded' }],
+    });
+  });
+});
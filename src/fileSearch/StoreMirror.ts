@@ -0,0 +1,171 @@
+import path from 'path';
+import type { FileSearchDocument, FileSearchManager, FileUploader } from '@allenhutchison/gemini-utils';
+import { documentMetadata } from './documents.js';
+import { FileSelectionOptions, hashFile, selectUploadFiles } from './localFiles.js';
+import { UploadFileEvent, UploadFilesOptions, uploadFiles } from './uploadFiles.js';
+import { UPLOAD_ROOT_METADATA_KEY } from './uploadMetadata.js';
+
+/**
+ * A remote document scheduled for deletion: its source file was removed locally, or it
+ * is an older copy of a file that is being re-uploaded.
+ */
+export interface MirrorDeletion {
+  path: string;
+  documentName: string;
+  reason: 'removed' | 'superseded';
+}
+
+/**
+ * Differences between a local directory and a store, keyed by relative path.
+ */
+export interface MirrorPlan {
+  add: string[];
+  update: string[];
+  unchanged: string[];
+  delete: MirrorDeletion[];
+  /** Remote documents not uploaded by a mirror of this directory, which it leaves alone */
+  unmanaged: number;
+  /** Local files and directories left out by ignore rules */
+  skippedByRules: number;
+}
+
+export type MirrorProgressEvent =
+  | Exclude<UploadFileEvent, { type: 'file_skipped' }>
+  | { type: 'document_deleted'; path: string; documentName: string }
+  | { type: 'delete_error'; path: string; documentName: string; error: Error };
+
+function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error));
+}
+
+/**
+ * Compares local file hashes against the store's documents that a mirror of uploadRoot
+ * uploaded, so mirroring one directory never touches documents from another. Documents
+ * are matched on their `path` metadata; a path whose hash matches any remote copy is
+ * unchanged, and all other remote copies of it are superseded.
+ */
+export function planMirror(localHashes: Map<string, string>, documents: FileSearchDocument[], uploadRoot: string): MirrorPlan {
+  const remoteByPath = new Map<string, Array<{ documentName: string; hash?: string }>>();
+  let unmanaged = 0;
+  for (const document of documents) {
+    const metadata = documentMetadata(document);
+    if (typeof metadata.path !== 'string' || metadata[UPLOAD_ROOT_METADATA_KEY] !== uploadRoot || !document.name) {
+      unmanaged++;
+      continue;
+    }
+    const copies = remoteByPath.get(metadata.path) ?? [];
+    copies.push({ documentName: document.name, hash: typeof metadata.hash === 'string' ? metadata.hash : undefined });
+    remoteByPath.set(metadata.path, copies);
+  }
+
+  const plan: MirrorPlan = { add: [], update: [], unchanged: [], delete: [], unmanaged, skippedByRules: 0 };
+  for (const [filePath, hash] of localHashes) {
+    const copies = remoteByPath.get(filePath);
+    if (!copies) {
+      plan.add.push(filePath);
+      continue;
+    }
+    const current = copies.find((copy) => copy.hash === hash);
+    (current ? plan.unchanged : plan.update).push(filePath);
+    for (const copy of copies) {
+      if (copy !== current) plan.delete.push({ path: filePath, documentName: copy.documentName, reason: 'superseded' });
+    }
+  }
+  for (const [filePath, copies] of remoteByPath) {
+    if (localHashes.has(filePath)) continue;
+    for (const copy of copies) {
+      plan.delete.push({ path: filePath, documentName: copy.documentName, reason: 'removed' });
+    }
+  }
+  return plan;
+}
+
+/**
+ * Drops the given paths from a plan's uploads, along with the deletion of their
+ * superseded copies. Used when resuming a mirror to leave out files that failed.
+ */
+export function excludeFromPlan(plan: MirrorPlan, paths: Set<string>): MirrorPlan {
+  return {
+    ...plan,
+    add: plan.add.filter((filePath) => !paths.has(filePath)),
+    update: plan.update.filter((filePath) => !paths.has(filePath)),
+    delete: plan.delete.filter((deletion) => deletion.reason !== 'superseded' || !paths.has(deletion.path)),
+  };
+}
+
+/**
+ * Keeps only the given paths' uploads, along with the deletion of their superseded
+ * copies. Used when retrying a mirror's failed files, so their old versions are removed
+ * once the new ones upload.
+ */
+export function restrictPlan(plan: MirrorPlan, paths: Set<string>): MirrorPlan {
+  return {
+    ...plan,
+    add: plan.add.filter((filePath) => paths.has(filePath)),
+    update: plan.update.filter((filePath) => paths.has(filePath)),
+    unchanged: plan.unchanged.filter((filePath) => paths.has(filePath)),
+    delete: plan.delete.filter((deletion) => deletion.reason === 'superseded' && paths.has(deletion.path)),
+  };
+}
+
+/**
+ * Makes a store's documents match a local directory: uploads new and changed files,
+ * then deletes remote documents whose source file is gone or was superseded. Uploads
+ * record the directory's absolute path as `upload_root`, and only documents carrying
+ * the same root are updated or deleted.
+ */
+export class StoreMirror {
+  constructor(
+    private readonly fileUploader: FileUploader,
+    private readonly fileSearchManager: FileSearchManager
+  ) {}
+
+  /**
+   * Compares the files selected from rootDir with the store. Files left out by ignore
+   * rules count as absent, so their documents are deleted.
+   */
+  async plan(rootDir: string, storeName: string, selection: FileSelectionOptions = {}): Promise<MirrorPlan> {
+    const { files, skippedByRules } = selectUploadFiles(rootDir, selection);
+    const localHashes = new Map<string, string>();
+    for (const relativePath of files) {
+      localHashes.set(relativePath, hashFile(path.join(rootDir, relativePath)));
+    }
+    const plan = planMirror(localHashes, await this.fileSearchManager.listDocuments(storeName), path.resolve(rootDir));
+    return { ...plan, skippedByRules };
+  }
+
+  /**
+   * Applies a plan. Failures are reported through onProgress and do not stop the run;
+   * superseded copies of a file are only deleted once its new version uploaded. Once
+   * the signal is aborted no further uploads or deletions are started.
+   */
+  async apply(
+    plan: MirrorPlan,
+    rootDir: string,
+    storeName: string,
+    onProgress: (event: MirrorProgressEvent) => void = () => {},
+    options: Pick<UploadFilesOptions, 'signal' | 'mimeTypeFallback' | 'convert' | 'concurrency' | 'rateLimiter' | 'chunkingConfig' | 'metadataFor'> = {}
+  ): Promise<void> {
+    const { signal, metadataFor } = options;
+    const uploadRoot = path.resolve(rootDir);
+    const uploads = await uploadFiles(this.fileUploader, rootDir, [...plan.add, ...plan.update], storeName, {
+      ...options,
+      metadataFor: (relativePath) => ({ ...metadataFor?.(relativePath), [UPLOAD_ROOT_METADATA_KEY]: uploadRoot }),
+      onEvent: (event) => {
+        if (event.type !== 'file_skipped') onProgress(event);
+      },
+    });
+    const failedUploads = new Set(uploads.failed);
+
+    for (const deletion of plan.delete) {
+      if (signal?.aborted) break;
+      if (deletion.reason === 'superseded' && failedUploads.has(deletion.path)) continue;
+      try {
+        await this.fileSearchManager.deleteDocument(deletion.documentName);
+        onProgress({ type: 'document_deleted', path: deletion.path, documentName: deletion.documentName });
+      } catch (error: unknown) {
+        onProgress({ type: 'delete_error', path: deletion.path, documentName: deletion.documentName, error: toError(error) });
+      }
+    }
+  }
+}
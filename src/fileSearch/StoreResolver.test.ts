@@ -0,0 +1,78 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import type { FileSearchManager } from '@allenhutchison/gemini-utils';
+import { StoreAliasStorage, StoreResolutionError, StoreResolver } from './StoreResolver';
+
+describe('StoreResolver', () => {
+  let aliases: Record<string, string[]>;
+  let remoteStores: Array<{ name: string; displayName?: string }>;
+  let storage: StoreAliasStorage;
+  const listStores = jest.fn(async (): Promise<AsyncIterable<{ name: string; displayName?: string }>> => ({
+    [Symbol.asyncIterator]: async function* (): AsyncGenerator<{ name: string; displayName?: string }> {
+      yield* remoteStores;
+    },
+  }));
+  let resolver: StoreResolver;
+
+  beforeEach(() => {
+    listStores.mockClear();
+    aliases = { 'Project Docs': ['fileSearchStores/project-docs'] };
+    remoteStores = [
+      { name: 'fileSearchStores/project-docs', displayName: 'Project Docs' },
+      { name: 'fileSearchStores/papers-1', displayName: 'Papers' },
+      { name: 'fileSearchStores/notes-1', displayName: 'Notes' },
+      { name: 'fileSearchStores/notes-2', displayName: 'Notes' },
+    ];
+    storage = {
+      getFileSearchStores: (): Record<string, string[]> => aliases,
+      addFileSearchStore: jest.fn((name: string, resourceName: string): void => {
+        aliases[name] = [...(aliases[name] ?? []), resourceName];
+      }),
+    };
+    resolver = new StoreResolver({ listStores } as unknown as FileSearchManager, storage);
+  });
+
+  it('should return resource names unchanged', async () => {
+    await expect(resolver.resolve('fileSearchStores/anything')).resolves.toBe('fileSearchStores/anything');
+    expect(listStores).not.toHaveBeenCalled();
+  });
+
+  it('should resolve local aliases without listing stores', async () => {
+    await expect(resolver.resolve('project docs')).resolves.toBe('fileSearchStores/project-docs');
+    expect(listStores).not.toHaveBeenCalled();
+  });
+
+  it('should fall back to remote display names and bare IDs, caching the alias', async () => {
+    await expect(resolver.resolve('Papers')).resolves.toBe('fileSearchStores/papers-1');
+    expect(storage.addFileSearchStore).toHaveBeenCalledWith('Papers', 'fileSearchStores/papers-1');
+
+    await expect(resolver.resolve('notes-2')).resolves.toBe('fileSearchStores/notes-2');
+  });
+
+  it('should reject ambiguous names, listing the candidates', async () => {
+    await expect(resolver.resolve('Notes')).rejects.toThrow(
+      'Store name "Notes" is ambiguous. It matches: fileSearchStores/notes-1 (Notes), fileSearchStores/notes-2 (Notes).'
+    );
+  });
+
+  it('should reject a local alias shared by two stores with the same display name', async () => {
+    storage.addFileSearchStore('Project Docs', 'fileSearchStores/project-docs-2');
+
+    await expect(resolver.resolve('Project Docs')).rejects.toThrow(
+      'Store name "Project Docs" is ambiguous. It matches: fileSearchStores/project-docs (Project Docs), ' +
+        'fileSearchStores/project-docs-2 (Project Docs).'
+    );
+    expect(listStores).not.toHaveBeenCalled();
+  });
+
+  it('should reject unknown names, listing the available stores', async () => {
+    await expect(resolver.resolve('Missing')).rejects.toThrow(StoreResolutionError);
+    await expect(resolver.resolve('Missing')).rejects.toThrow('Available stores: fileSearchStores/project-docs (Project Docs)');
+  });
+
+  it('should resolve lists in order without duplicates', async () => {
+    await expect(resolver.resolveAll(['Project Docs', 'fileSearchStores/project-docs', 'Papers'])).resolves.toEqual([
+      'fileSearchStores/project-docs',
+      'fileSearchStores/papers-1',
+    ]);
+  });
+});
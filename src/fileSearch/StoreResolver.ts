@@ -0,0 +1,109 @@
+import type { FileSearchManager } from '@allenhutchison/gemini-utils';
+
+const RESOURCE_PREFIX = 'fileSearchStores/';
+
+/**
+ * Thrown when a store reference matches no store, or more than one.
+ */
+export class StoreResolutionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StoreResolutionError';
+  }
+}
+
+/**
+ * Local display name → resource names mappings, as kept by WorkspaceConfigManager.
+ * An alias lists several resource names when stores share a display name.
+ */
+export interface StoreAliasStorage {
+  getFileSearchStores(): Record<string, string[]>;
+  addFileSearchStore(name: string, resourceName: string): void;
+}
+
+interface StoreCandidate {
+  name: string;
+  displayName?: string;
+}
+
+function describeCandidates(candidates: StoreCandidate[]): string {
+  return candidates.map((store) => `${store.name}${store.displayName ? ` (${store.displayName})` : ''}`).join(', ');
+}
+
+/**
+ * Resolves the ways a user may refer to a file search store to its resource name.
+ *
+ * Resolution order: full resource names (`fileSearchStores/...`) are returned as-is;
+ * then local aliases are matched exactly, then case-insensitively, failing if the alias
+ * names more than one store; finally the remote store list is searched by display name
+ * or bare store ID. Remote matches are cached as aliases for next time.
+ */
+export class StoreResolver {
+  constructor(
+    private readonly fileSearchManager: FileSearchManager,
+    private readonly aliases: StoreAliasStorage
+  ) {}
+
+  async resolve(reference: string): Promise<string> {
+    const trimmed = reference.trim();
+    if (!trimmed) {
+      throw new StoreResolutionError('Store name must not be empty.');
+    }
+    if (trimmed.startsWith(RESOURCE_PREFIX)) {
+      return trimmed;
+    }
+
+    const local = this.aliases.getFileSearchStores();
+    const exact = local[trimmed]?.length ? [trimmed] : [];
+    const aliases = exact.length > 0
+      ? exact
+      : Object.keys(local).filter((alias) => alias.toLowerCase() === trimmed.toLowerCase());
+    const localMatches = aliases.flatMap((alias) => local[alias].map((resource): [string, string] => [alias, resource]));
+    const localResources = [...new Set(localMatches.map(([, resource]) => resource))];
+    if (localResources.length === 1) {
+      return localResources[0];
+    }
+    if (localResources.length > 1) {
+      // e.g. two stores created with the same display name
+      throw new StoreResolutionError(
+        `Store name "${reference}" is ambiguous. It matches: ${describeCandidates(
+          localMatches.map(([displayName, name]) => ({ name, displayName }))
+        )}. Use the full resource name instead.`
+      );
+    }
+
+    const remote: StoreCandidate[] = [];
+    for await (const store of await this.fileSearchManager.listStores()) {
+      if (store.name) remote.push({ name: store.name, displayName: store.displayName });
+    }
+
+    let matches = remote.filter((store) => store.name === `${RESOURCE_PREFIX}${trimmed}` || store.displayName === trimmed);
+    if (matches.length === 0) {
+      matches = remote.filter((store) => store.displayName?.toLowerCase() === trimmed.toLowerCase());
+    }
+
+    if (matches.length === 1) {
+      const [store] = matches;
+      if (store.displayName) this.aliases.addFileSearchStore(store.displayName, store.name);
+      return store.name;
+    }
+    if (matches.length > 1) {
+      throw new StoreResolutionError(
+        `Store name "${reference}" is ambiguous. It matches: ${describeCandidates(matches)}. Use the full resource name instead.`
+      );
+    }
+    const available = remote.length > 0 ? ` Available stores: ${describeCandidates(remote)}.` : ' No stores exist yet.';
+    throw new StoreResolutionError(`File search store not found: "${reference}".${available}`);
+  }
+
+  /**
+   * Resolves several references, preserving order and dropping duplicates.
+   */
+  async resolveAll(references: string[]): Promise<string[]> {
+    const resolved: string[] = [];
+    for (const reference of references) {
+      resolved.push(await this.resolve(reference));
+    }
+    return [...new Set(resolved)];
+  }
+}
@@ -0,0 +1,46 @@
+import { describe, it, expect } from '@jest/globals';
+import { filterDocuments, paginate, summarizeDocument } from './documents';
+
+describe('summarizeDocument', () => {
+  it('should flatten custom metadata and expose the uploaded path', () => {
+    expect(summarizeDocument({
+      name: 'fileSearchStores/s/documents/1',
+      displayName: 'guide.md',
+      customMetadata: [
+        { key: 'path', stringValue: 'docs/guide.md' },
+        { key: 'size', numericValue: 10 },
+        { stringValue: 'no key' },
+      ],
+    })).toEqual({
+      name: 'fileSearchStores/s/documents/1',
+      displayName: 'guide.md',
+      path: 'docs/guide.md',
+      metadata: { path: 'docs/guide.md', size: 10 },
+    });
+  });
+});
+
+describe('filterDocuments', () => {
+  const documents = [
+    { displayName: 'Guide.md', path: 'docs/Guide.md', metadata: {} },
+    { displayName: 'index.ts', path: 'src/index.ts', metadata: {} },
+    { displayName: 'notes.txt', metadata: {} },
+  ];
+
+  it('should match path prefixes and display names case-insensitively', () => {
+    expect(filterDocuments(documents, { pathPrefix: 'src/' }).map((d) => d.displayName)).toEqual(['index.ts']);
+    expect(filterDocuments(documents, { displayName: 'guide' }).map((d) => d.displayName)).toEqual(['Guide.md']);
+    expect(filterDocuments(documents, {})).toHaveLength(3);
+  });
+});
+
+describe('paginate', () => {
+  it('should return pages with a token for the next one', () => {
+    expect(paginate([1, 2, 3], 2)).toEqual({ items: [1, 2], total: 3, nextPageToken: '2' });
+    expect(paginate([1, 2, 3], 2, '2')).toEqual({ items: [3], total: 3, nextPageToken: undefined });
+  });
+
+  it('should reject malformed tokens', () => {
+    expect(() => paginate([1], 1, '-1')).toThrow('Invalid page token: -1');
+  });
+});
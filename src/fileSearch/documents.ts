@@ -0,0 +1,74 @@
+import type { FileSearchDocument } from '@allenhutchison/gemini-utils';
+
+/**
+ * Flattened view of a store document for tool output.
+ */
+export interface DocumentSummary {
+  name?: string;
+  displayName?: string;
+  /** Relative path recorded at upload time, if any */
+  path?: string;
+  metadata: Record<string, string | number>;
+}
+
+export interface DocumentFilter {
+  /** Keep documents whose recorded path starts with this prefix */
+  pathPrefix?: string;
+  /** Keep documents whose display name contains this text (case-insensitive) */
+  displayName?: string;
+}
+
+export interface DocumentPage<T> {
+  items: T[];
+  total: number;
+  nextPageToken?: string;
+}
+
+/**
+ * Collects a document's custom metadata into a plain key → value record.
+ */
+export function documentMetadata(document: FileSearchDocument): Record<string, string | number> {
+  const metadata: Record<string, string | number> = {};
+  for (const entry of document.customMetadata ?? []) {
+    if (!entry.key) continue;
+    const value = entry.stringValue ?? entry.numericValue;
+    if (value !== undefined) metadata[entry.key] = value;
+  }
+  return metadata;
+}
+
+export function summarizeDocument(document: FileSearchDocument): DocumentSummary {
+  const metadata = documentMetadata(document);
+  return {
+    name: document.name,
+    displayName: document.displayName,
+    path: typeof metadata.path === 'string' ? metadata.path : undefined,
+    metadata,
+  };
+}
+
+export function filterDocuments(documents: DocumentSummary[], filter: DocumentFilter): DocumentSummary[] {
+  const displayName = filter.displayName?.toLowerCase();
+  return documents.filter((document) => {
+    if (filter.pathPrefix && !document.path?.startsWith(filter.pathPrefix)) return false;
+    if (displayName && !document.displayName?.toLowerCase().includes(displayName)) return false;
+    return true;
+  });
+}
+
+/**
+ * Returns one page of items. Page tokens are opaque to callers; they encode the offset
+ * of the next page. Throws on a malformed token.
+ */
+export function paginate<T>(items: T[], pageSize: number, pageToken?: string): DocumentPage<T> {
+  const offset = pageToken === undefined ? 0 : Number(pageToken);
+  if (!Number.isInteger(offset) || offset < 0) {
+    throw new Error(`Invalid page token: ${pageToken}`);
+  }
+  const end = offset + pageSize;
+  return {
+    items: items.slice(offset, end),
+    total: items.length,
+    nextPageToken: end < items.length ? String(end) : undefined,
+  };
+}
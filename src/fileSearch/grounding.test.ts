@@ -0,0 +1,93 @@
+import { describe, it, expect } from '@jest/globals';
+import type { Interaction } from '@allenhutchison/gemini-utils';
+import { extractGroundedAnswer, formatGroundedAnswer } from './grounding';
+
+type InteractionOutput = NonNullable<Interaction['outputs']>[number];
+
+const first = 'Café builds use v2. ';
+const second = 'Deploys run nightly.';
+const bytes = (text: string): number => Buffer.byteLength(text);
+
+const outputs: InteractionOutput[] = [
+  {
+    type: 'file_search_result',
+    result: [
+      { title: 'build.md', file_search_store: 'fileSearchStores/docs', text: 'Café builds pin toolchain v2.' },
+      { title: 'build.md', file_search_store: 'fileSearchStores/docs', text: 'Caches live in S3.' },
+      { title: 'ops.md', file_search_store: 'fileSearchStores/docs', text: 'The deploy job runs at 02:00.' },
+      { title: 'faq.md', file_search_store: 'fileSearchStores/docs', text: 'Unrelated.' },
+    ],
+  },
+  {
+    type: 'text',
+    text: first,
+    annotations: [
+      { source: 'build.md', start_index: 0, end_index: bytes('Café builds use v2.') },
+      { source: 'build.md', start_index: bytes('Café '), end_index: bytes('Café builds') },
+    ],
+  },
+  { type: 'text', text: second, annotations: [{ source: 'ops.md', start_index: 0, end_index: bytes(second) }] },
+];
+
+describe('extractGroundedAnswer', () => {
+  it('should join the answer and attach cited passages, excerpts and coverage', () => {
+    const grounded = extractGroundedAnswer(outputs);
+    const total = bytes(first + second);
+
+    expect(grounded.answer).toBe(first + second);
+    expect(grounded.sources).toEqual([
+      {
+        id: 1,
+        document: 'build.md',
+        fileSearchStore: 'fileSearchStores/docs',
+        cited: true,
+        coverage: Math.round((bytes('Café builds use v2.') / total) * 100) / 100,
+        citedPassages: ['Café builds use v2.', 'builds'],
+        excerpts: ['Café builds pin toolchain v2.', 'Caches live in S3.'],
+      },
+      {
+        id: 2,
+        document: 'ops.md',
+        fileSearchStore: 'fileSearchStores/docs',
+        cited: true,
+        coverage: Math.round((bytes(second) / total) * 100) / 100,
+        citedPassages: [second],
+        excerpts: ['The deploy job runs at 02:00.'],
+      },
+      {
+        id: 3,
+        document: 'faq.md',
+        fileSearchStore: 'fileSearchStores/docs',
+        cited: false,
+        coverage: 0,
+        citedPassages: [],
+        excerpts: ['Unrelated.'],
+      },
+    ]);
+  });
+
+  it('should return just the answer without grounding', () => {
+    expect(extractGroundedAnswer([{ type: 'text', text: 'Plain' }])).toEqual({ answer: 'Plain', sources: [] });
+  });
+});
+
+describe('formatGroundedAnswer', () => {
+  it('should append a Sources section', () => {
+    const text = formatGroundedAnswer(extractGroundedAnswer(outputs));
+
+    expect(text).toBe(
+      `${first}${second}\n\n## Sources\n\n` +
+      '[1] build.md (fileSearchStores/docs): supports 49% of the answer\n   > Café builds pin toolchain v2.\n' +
+      '[2] ops.md (fileSearchStores/docs): supports 49% of the answer\n   > The deploy job runs at 02:00.\n' +
+      '[3] faq.md (fileSearchStores/docs): retrieved, not cited\n   > Unrelated.\n'
+    );
+  });
+
+  it('should nest the Sources heading on request', () => {
+    expect(formatGroundedAnswer(extractGroundedAnswer(outputs), 3)).toContain('\n\n### Sources\n\n[1] build.md');
+  });
+
+  it('should leave answers without sources unchanged', () => {
+    expect(formatGroundedAnswer({ answer: 'Plain', sources: [] })).toBe('Plain');
+  });
+});
@@ -0,0 +1,137 @@
+import type { Interaction } from '@allenhutchison/gemini-utils';
+import { citationKey, extractCitations } from '../research/citations.js';
+
+type InteractionOutput = NonNullable<Interaction['outputs']>[number];
+
+export const QUERY_OUTPUT_FORMATS = ['text', 'json'] as const;
+export type QueryOutputFormat = (typeof QUERY_OUTPUT_FORMATS)[number];
+
+/** Longest excerpt shown per source in the text rendering */
+const TEXT_EXCERPT_LENGTH = 300;
+
+/**
+ * A document file search retrieved for an answer.
+ */
+export interface GroundingSource {
+  /** 1-based number, cited documents first in order of first citation */
+  id: number;
+  /** Document title as reported by file search */
+  document: string;
+  fileSearchStore?: string;
+  /** False for documents that were retrieved but not cited in the answer */
+  cited: boolean;
+  /**
+   * Share of the answer attributed to this document, from 0 to 1. The API reports no
+   * confidence scores, so this is the measure of how strongly a document backs it.
+   */
+  coverage: number;
+  /** Passages of the answer attributed to this document */
+  citedPassages: string[];
+  /** Chunks of the document that were retrieved */
+  excerpts: string[];
+}
+
+export interface GroundedAnswer {
+  answer: string;
+  sources: GroundingSource[];
+}
+
+interface Span {
+  start: number;
+  end: number;
+}
+
+function mergedLength(spans: Span[]): number {
+  let total = 0;
+  let reach = 0;
+  for (const span of [...spans].sort((a, b) => a.start - b.start)) {
+    const start = Math.max(span.start, reach);
+    if (span.end > start) total += span.end - start;
+    reach = Math.max(reach, span.end);
+  }
+  return total;
+}
+
+/**
+ * Collects a query's answer text along with the documents that grounded it: excerpts
+ * from file search results, and answer passages from the text annotations (whose
+ * indices count UTF-8 bytes).
+ */
+export function extractGroundedAnswer(outputs: InteractionOutput[]): GroundedAnswer {
+  const excerpts = new Map<string, string[]>();
+  for (const output of outputs) {
+    if (output.type !== 'file_search_result') continue;
+    for (const result of output.result ?? []) {
+      if (!result.title || !result.text) continue;
+      const key = citationKey(result.title);
+      const list = excerpts.get(key) ?? [];
+      if (!list.includes(result.text)) list.push(result.text);
+      excerpts.set(key, list);
+    }
+  }
+
+  const texts: string[] = [];
+  const passages = new Map<string, string[]>();
+  const spans = new Map<string, Span[]>();
+  let answerBytes = 0;
+  let offset = 0;
+  for (const output of outputs) {
+    if (output.type !== 'text' || !output.text) continue;
+    const bytes = Buffer.from(output.text);
+    for (const annotation of output.annotations ?? []) {
+      if (!annotation.source) continue;
+      const start = Math.max(0, annotation.start_index ?? 0);
+      const end = Math.min(bytes.length, annotation.end_index ?? bytes.length);
+      if (end <= start) continue;
+      const key = citationKey(annotation.source);
+      const passage = bytes.subarray(start, end).toString().trim();
+      const list = passages.get(key) ?? [];
+      if (passage && !list.includes(passage)) list.push(passage);
+      passages.set(key, list);
+      spans.set(key, [...(spans.get(key) ?? []), { start: offset + start, end: offset + end }]);
+    }
+    texts.push(output.text);
+    answerBytes += bytes.length;
+    offset += bytes.length;
+  }
+
+  const sources = extractCitations(outputs, { includeUncited: true })
+    .filter((citation) => citation.type === 'document')
+    .map((citation, index): GroundingSource => {
+      const key = citationKey(citation.source);
+      const covered = mergedLength(spans.get(key) ?? []);
+      return {
+        id: index + 1,
+        document: citation.title ?? citation.source,
+        fileSearchStore: citation.fileSearchStore,
+        cited: citation.cited,
+        coverage: answerBytes > 0 ? Math.round((covered / answerBytes) * 100) / 100 : 0,
+        citedPassages: passages.get(key) ?? [],
+        excerpts: excerpts.get(key) ?? [],
+      };
+    });
+
+  return { answer: texts.join(''), sources };
+}
+
+function truncate(text: string, length: number): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > length ? `${flat.slice(0, length - 1)}…` : flat;
+}
+
+/**
+ * Renders an answer followed by a "Sources" section listing each document, how much
+ * of the answer it backs, and its first retrieved excerpt.
+ */
+export function formatGroundedAnswer({ answer, sources }: GroundedAnswer, headingLevel = 2): string {
+  if (sources.length === 0) return answer;
+  const entries = sources.map((source) => {
+    const store = source.fileSearchStore ? ` (${source.fileSearchStore})` : '';
+    const support = source.cited
+      ? `supports ${Math.round(source.coverage * 100)}% of the answer`
+      : 'retrieved, not cited';
+    const excerpt = source.excerpts[0] ? `\n   > ${truncate(source.excerpts[0], TEXT_EXCERPT_LENGTH)}` : '';
+    return `[${source.id}] ${source.document}${store}: ${support}${excerpt}`;
+  });
+  return `${answer.trimEnd()}\n\n${'#'.repeat(headingLevel)} Sources\n\n${entries.join('\n')}\n`;
+}
@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { hashFile, selectUploadFiles } from './localFiles';
+
+describe('localFiles', () => {
+  let rootDir: string;
+
+  const write = (relativePath: string, content = 'x'): void => {
+    const fullPath = path.join(rootDir, relativePath);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, content);
+  };
+
+  const selected = (options = {}): string[] =>
+    selectUploadFiles(rootDir, options).files.map((file) => file.split(path.sep).join('/'));
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'local-files-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  describe('selectUploadFiles', () => {
+    it('should skip .git, hidden files and .gitignore matches', () => {
+      write('.gitignore', 'build/\n*.log\n');
+      write('.git/config');
+      write('.env');
+      write('.github/workflows/ci.yml');
+      write('build/out.js');
+      write('debug.log');
+      write('src/index.ts');
+      write('README.md');
+
+      expect(selectUploadFiles(rootDir)).toEqual({
+        files: [path.join('.github', 'workflows', 'ci.yml'), 'README.md', path.join('src', 'index.ts')],
+        skippedByRules: 2,
+      });
+    });
+
+    it('should honour .geminiresearchignore and nested ignore files', () => {
+      write('.geminiresearchignore', 'secrets/\n');
+      write('secrets/key.pem');
+      write('docs/.gitignore', 'drafts/\n');
+      write('docs/drafts/wip.md');
+      write('docs/guide.md');
+      write('drafts/kept.md');
+
+      expect(selected()).toEqual(['docs/guide.md', 'drafts/kept.md']);
+    });
+
+    it('should apply exclude and include globs', () => {
+      write('node_modules/pkg/index.js');
+      write('docs/guide.md');
+      write('docs/image.png');
+      write('notes.md');
+
+      expect(selected({ exclude: ['node_modules/'] })).toEqual(['docs/guide.md', 'docs/image.png', 'notes.md']);
+
+      const selection = selectUploadFiles(rootDir, { include: ['*.md'], exclude: ['node_modules/'] });
+      expect(selection.files.map((file) => file.split(path.sep).join('/'))).toEqual(['docs/guide.md', 'notes.md']);
+      expect(selection.skippedByRules).toBe(2);
+    });
+  });
+
+  it('should hash file contents with SHA-256', () => {
+    write('a.txt', 'hello');
+
+    expect(hashFile(path.join(rootDir, 'a.txt'))).toBe(
+      '2cf24dba5fb0a30e26e83b2ac5b9e29e1b161e5c1fa7425e73043362938b9824'
+    );
+  });
+});
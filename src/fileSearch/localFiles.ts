@@ -0,0 +1,99 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import ignore, { Ignore } from 'ignore';
+
+/** Ignore files honoured in every directory of an upload, using .gitignore syntax */
+export const IGNORE_FILES = ['.gitignore', '.geminiresearchignore'];
+
+export interface FileSelectionOptions {
+  /** Only upload files matching at least one of these globs (.gitignore syntax) */
+  include?: string[];
+  /** Skip files and directories matching any of these globs (.gitignore syntax) */
+  exclude?: string[];
+}
+
+export interface FileSelection {
+  /** Relative paths of the files to upload, sorted */
+  files: string[];
+  /** Files and directories left out by ignore files or include/exclude globs */
+  skippedByRules: number;
+}
+
+interface ScopedRules {
+  /** Directory the rules were declared in, relative to the upload root ('' for the root) */
+  base: string;
+  rules: Ignore;
+}
+
+function toPosix(relativePath: string): string {
+  return relativePath.split(path.sep).join('/');
+}
+
+function loadIgnoreFiles(dir: string): Ignore | undefined {
+  let rules: Ignore | undefined;
+  for (const name of IGNORE_FILES) {
+    const filePath = path.join(dir, name);
+    if (fs.existsSync(filePath)) {
+      rules = (rules ?? ignore()).add(fs.readFileSync(filePath, 'utf-8'));
+    }
+  }
+  return rules;
+}
+
+/**
+ * Lists the files a directory upload should send, as relative paths.
+ *
+ * `.git` is always skipped, as are hidden files (hidden directories are still
+ * traversed). `.gitignore` and `.geminiresearchignore` files are honoured in every
+ * directory, scoped to that directory like git does; exclude globs apply from the
+ * root, and include globs, when given, must match each remaining file.
+ */
+export function selectUploadFiles(rootDir: string, options: FileSelectionOptions = {}): FileSelection {
+  const root = path.resolve(rootDir);
+  const rootRules: ScopedRules = { base: '', rules: ignore().add(options.exclude ?? []) };
+  const include = options.include && options.include.length > 0 ? ignore().add(options.include) : undefined;
+  const selection: FileSelection = { files: [], skippedByRules: 0 };
+
+  const isIgnored = (scopes: ScopedRules[], relativePath: string, isDirectory: boolean): boolean =>
+    scopes.some(({ base, rules }) => {
+      const scoped = base ? path.posix.relative(base, relativePath) : relativePath;
+      return rules.ignores(isDirectory ? `${scoped}/` : scoped);
+    });
+
+  const walk = (dir: string, inherited: ScopedRules[]): void => {
+    const base = toPosix(path.relative(root, dir));
+    const local = loadIgnoreFiles(dir);
+    const scopes = local ? [...inherited, { base, rules: local }] : inherited;
+
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      if (entry.name === '.git') continue;
+      const fullPath = path.join(dir, entry.name);
+      const relativePath = toPosix(path.relative(root, fullPath));
+      if (isIgnored(scopes, relativePath, entry.isDirectory())) {
+        selection.skippedByRules++;
+        continue;
+      }
+      if (entry.isDirectory()) {
+        walk(fullPath, scopes);
+      } else if (!entry.name.startsWith('.')) {
+        if (include && !include.ignores(relativePath)) {
+          selection.skippedByRules++;
+          continue;
+        }
+        selection.files.push(path.relative(root, fullPath));
+      }
+    }
+  };
+
+  walk(root, [rootRules]);
+  selection.files.sort();
+  return selection;
+}
+
+/**
+ * SHA-256 of a file's contents, matching the `hash` metadata written on upload.
+ */
+export function hashFile(filePath: string): string {
+  return crypto.createHash('sha256').update(fs.readFileSync(filePath)).digest('hex');
+}
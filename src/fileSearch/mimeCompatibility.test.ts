@@ -0,0 +1,64 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { checkFileCompatibility, convertToText, looksLikeText, mimeTypeFor } from './mimeCompatibility';
+
+describe('mimeCompatibility', () => {
+  let rootDir: string;
+
+  const write = (name: string, content: string | Buffer): string => {
+    const filePath = path.join(rootDir, name);
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  };
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mime-compat-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  describe('checkFileCompatibility', () => {
+    it('should classify files by extension', () => {
+      expect(checkFileCompatibility(write('notes.md', '# Notes'))).toEqual({ status: 'native', mimeType: 'text/markdown' });
+      expect(checkFileCompatibility(write('app.ts', 'export {};'))).toEqual({ status: 'fallback', mimeType: 'text/plain' });
+      expect(checkFileCompatibility(write('Dockerfile', 'FROM node'))).toEqual({
+        status: 'rejected',
+        reason: 'Unsupported file type: no extension',
+      });
+    });
+
+    it('should convert text files when conversion is enabled', () => {
+      expect(checkFileCompatibility(write('app.ts', 'export {};'), { convert: true })).toEqual({
+        status: 'converted',
+        mimeType: 'text/plain',
+      });
+      expect(checkFileCompatibility(write('Dockerfile', 'FROM node'), { convert: true }).status).toBe('converted');
+      expect(checkFileCompatibility(write('data.bin', Buffer.from([0x00, 0x01, 0x02])), { convert: true })).toEqual({
+        status: 'rejected',
+        reason: 'Unsupported file type: .bin',
+      });
+    });
+  });
+
+  it('should treat NUL bytes and invalid UTF-8 as binary', () => {
+    expect(looksLikeText(write('plain', 'héllo wörld'))).toBe(true);
+    expect(looksLikeText(write('nul', Buffer.from('abc\0def')))).toBe(false);
+    expect(looksLikeText(write('latin1', Buffer.from([0x66, 0xff, 0x6f])))).toBe(false);
+  });
+
+  it('should pick the MIME type the uploader would use', () => {
+    expect(mimeTypeFor('notes.md')).toBe('text/markdown');
+    expect(mimeTypeFor('app.ts')).toBe('text/plain');
+    expect(mimeTypeFor('Dockerfile')).toBeUndefined();
+  });
+
+  it('should prefix converted content with the file path', () => {
+    expect(convertToText(path.join('src', 'app.ts'), Buffer.from('export {};')).toString()).toBe(
+      'File: src/app.ts\n\nexport {};'
+    );
+  });
+});
@@ -0,0 +1,97 @@
+import fs from 'fs';
+import path from 'path';
+import { EXTENSION_TO_MIME, FILE_SIZE_LIMITS, TEXT_FALLBACK_EXTENSIONS } from '@allenhutchison/gemini-utils';
+
+/**
+ * How a file would be uploaded:
+ * - `native`: its extension has a MIME type the API accepts;
+ * - `fallback`: a known text extension, uploaded as text/plain;
+ * - `converted`: uploaded as text/plain with a filename header (conversion only);
+ * - `rejected`: too large, binary, or of an unknown type.
+ */
+export type CompatibilityStatus = 'native' | 'fallback' | 'converted' | 'rejected';
+
+export interface FileCompatibility {
+  status: CompatibilityStatus;
+  mimeType?: string;
+  /** Why a file is rejected */
+  reason?: string;
+}
+
+export interface CompatibilityOptions {
+  /**
+   * Convert text files the API does not accept natively: known text extensions and
+   * files of unknown type whose content is UTF-8 text.
+   */
+  convert?: boolean;
+}
+
+/** Bytes read to decide whether a file of unknown type is text */
+const SNIFF_BYTES = 8192;
+
+/**
+ * Whether the start of a file decodes as UTF-8 without NUL bytes.
+ */
+export function looksLikeText(filePath: string): boolean {
+  const buffer = Buffer.alloc(SNIFF_BYTES);
+  const fd = fs.openSync(filePath, 'r');
+  let length: number;
+  try {
+    length = fs.readSync(fd, buffer, 0, SNIFF_BYTES, 0);
+  } finally {
+    fs.closeSync(fd);
+  }
+  const sample = buffer.subarray(0, length);
+  if (sample.includes(0)) return false;
+  try {
+    // A multi-byte character cut off at the end of the sample is not an error
+    new TextDecoder('utf-8', { fatal: true }).decode(sample, { stream: true });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The MIME type FileUploader would upload a file with, going by its extension alone.
+ */
+export function mimeTypeFor(filePath: string): string | undefined {
+  const extension = path.extname(filePath).toLowerCase();
+  return EXTENSION_TO_MIME[extension] ?? (TEXT_FALLBACK_EXTENSIONS.has(extension) ? 'text/plain' : undefined);
+}
+
+/**
+ * Classifies a local file by how it would be uploaded, mirroring the checks
+ * FileUploader makes (size limit, then extension).
+ */
+export function checkFileCompatibility(filePath: string, options: CompatibilityOptions = {}): FileCompatibility {
+  const { size } = fs.statSync(filePath);
+  if (size > FILE_SIZE_LIMITS.MAX_FILE_SIZE_BYTES) {
+    return { status: 'rejected', reason: `Larger than ${FILE_SIZE_LIMITS.MAX_FILE_SIZE_MB} MB` };
+  }
+
+  const extension = path.extname(filePath).toLowerCase();
+  const nativeMimeType = EXTENSION_TO_MIME[extension];
+  if (nativeMimeType) {
+    return { status: 'native', mimeType: nativeMimeType };
+  }
+  if (TEXT_FALLBACK_EXTENSIONS.has(extension)) {
+    return { status: options.convert ? 'converted' : 'fallback', mimeType: 'text/plain' };
+  }
+  if (options.convert && looksLikeText(filePath)) {
+    return { status: 'converted', mimeType: 'text/plain' };
+  }
+  return {
+    status: 'rejected',
+    reason: extension ? `Unsupported file type: ${extension}` : 'Unsupported file type: no extension',
+  };
+}
+
+/**
+ * Wraps a file's content as plain text under a header naming the file, so answers
+ * grounded in it can tell which file a passage came from.
+ */
+export function convertToText(relativePath: string, content: Buffer): Buffer {
+  const posixPath = relativePath.split(path.sep).join('/');
+  return Buffer.concat([Buffer.from(`File: ${posixPath}\n\n`), content]);
+}
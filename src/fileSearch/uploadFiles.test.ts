@@ -0,0 +1,243 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileUploader, UnsupportedFileTypeError } from '@allenhutchison/gemini-utils';
+import { UploadFileEvent, uploadFiles } from './uploadFiles';
+import { hashFile } from './localFiles';
+import { TokenBucket } from '../utils/rateLimiter';
+
+describe('uploadFiles', () => {
+  let rootDir: string;
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'upload-files-'));
+    fs.writeFileSync(path.join(rootDir, 'same.md'), 'unchanged');
+    fs.writeFileSync(path.join(rootDir, 'changed.md'), 'new content');
+    fs.writeFileSync(path.join(rootDir, 'bad.bin'), 'binary');
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  it('should upload with relative paths, skip unchanged files and report failures', async () => {
+    const uploadFile = jest.fn(async (filePath: string): Promise<void> => {
+      if (filePath.endsWith('.bin')) throw new Error('Unsupported file type');
+    });
+    const getExistingFileHashes = jest.fn(async () => new Map([
+      ['same.md', { hash: hashFile(path.join(rootDir, 'same.md')), documentName: 'docs/1' }],
+      ['changed.md', { hash: 'stale', documentName: 'docs/2' }],
+    ]));
+    const events: UploadFileEvent[] = [];
+
+    const result = await uploadFiles(
+      { uploadFile, getExistingFileHashes } as unknown as FileUploader,
+      rootDir,
+      ['bad.bin', 'changed.md', 'same.md'],
+      'stores/1',
+      { smartSync: true, concurrency: 2, onEvent: (event) => events.push(event) }
+    );
+
+    expect(result).toEqual({ completed: ['changed.md'], skipped: ['same.md'], failed: ['bad.bin'] });
+    expect(uploadFile).toHaveBeenCalledWith(path.join(rootDir, 'changed.md'), 'stores/1', { relativePath: 'changed.md' });
+    expect(uploadFile).toHaveBeenCalledTimes(2);
+    expect(events).toContainEqual({ type: 'file_error', path: 'bad.bin', error: new Error('Unsupported file type') });
+  });
+
+  it('should not consult the store without smart sync', async () => {
+    const uploadFile = jest.fn(async (): Promise<void> => {});
+    const getExistingFileHashes = jest.fn();
+
+    await uploadFiles({ uploadFile, getExistingFileHashes } as unknown as FileUploader, rootDir, ['same.md'], 'stores/1');
+
+    expect(getExistingFileHashes).not.toHaveBeenCalled();
+    expect(uploadFile).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop starting uploads once aborted', async () => {
+    const controller = new AbortController();
+    const uploadFile = jest.fn(async (): Promise<void> => {
+      controller.abort();
+    });
+
+    const result = await uploadFiles(
+      { uploadFile } as unknown as FileUploader,
+      rootDir,
+      ['bad.bin', 'changed.md', 'same.md'],
+      'stores/1',
+      { concurrency: 1, signal: controller.signal }
+    );
+
+    expect(uploadFile).toHaveBeenCalledTimes(1);
+    expect(result.completed).toEqual(['bad.bin']);
+  });
+
+  it('should upload unrecognised file types with the MIME type fallback', async () => {
+    const uploadFile = jest.fn(async (filePath: string): Promise<void> => {
+      throw new UnsupportedFileTypeError(filePath, '.bin');
+    });
+    const uploadContent = jest.fn(async (): Promise<void> => {});
+
+    const result = await uploadFiles(
+      { uploadFile, uploadContent } as unknown as FileUploader,
+      rootDir,
+      ['bad.bin'],
+      'stores/1',
+      { mimeTypeFallback: 'text/plain' }
+    );
+
+    expect(result.completed).toEqual(['bad.bin']);
+    expect(uploadContent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: path.join(rootDir, 'bad.bin'),
+        mimeType: 'text/plain',
+        relativePath: 'bad.bin',
+        hash: hashFile(path.join(rootDir, 'bad.bin')),
+      }),
+      'stores/1',
+      { chunkingConfig: undefined }
+    );
+  });
+
+  it('should upload converted files as text/plain with a filename header and the original hash', async () => {
+    fs.writeFileSync(path.join(rootDir, 'Dockerfile'), 'FROM node');
+    const uploadFile = jest.fn();
+    const uploadContent = jest.fn(async (): Promise<void> => {});
+
+    await uploadFiles(
+      { uploadFile, uploadContent } as unknown as FileUploader,
+      rootDir,
+      ['Dockerfile', 'same.md'],
+      'stores/1',
+      { convert: true }
+    );
+
+    expect(uploadContent).toHaveBeenCalledTimes(1);
+    expect(uploadContent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: Buffer.from('File: Dockerfile\n\nFROM node'),
+        mimeType: 'text/plain',
+        relativePath: 'Dockerfile',
+        hash: hashFile(path.join(rootDir, 'Dockerfile')),
+      }),
+      'stores/1',
+      { chunkingConfig: undefined }
+    );
+    expect(uploadFile).toHaveBeenCalledWith(path.join(rootDir, 'same.md'), 'stores/1', { relativePath: 'same.md' });
+  });
+
+  it('should keep no more than concurrency uploads in flight', async () => {
+    const files = ['a.md', 'b.md', 'c.md', 'd.md', 'e.md'];
+    for (const file of files) fs.writeFileSync(path.join(rootDir, file), file);
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const uploadFile = jest.fn(async (): Promise<void> => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setImmediate(resolve));
+      inFlight--;
+    });
+    const events: UploadFileEvent[] = [];
+
+    const result = await uploadFiles({ uploadFile } as unknown as FileUploader, rootDir, files, 'stores/1', {
+      concurrency: 2,
+      onEvent: (event) => events.push(event),
+    });
+
+    expect(result.completed.sort()).toEqual(files);
+    expect(maxInFlight).toBe(2);
+    expect(events).toContainEqual({ type: 'file_complete', path: 'a.md', bytes: 4, durationMs: expect.any(Number) });
+  });
+
+  it('should retry rate-limited uploads and pause the rate limiter', async () => {
+    const rateLimit = Object.assign(new Error('Quota exceeded'), { status: 429 });
+    const uploadFile = jest.fn<() => Promise<void>>()
+      .mockRejectedValueOnce(rateLimit)
+      .mockResolvedValue(undefined);
+    const rateLimiter = new TokenBucket(1000);
+    const acquire = jest.spyOn(rateLimiter, 'acquire');
+    const pause = jest.spyOn(rateLimiter, 'pause');
+    const events: UploadFileEvent[] = [];
+
+    const result = await uploadFiles({ uploadFile } as unknown as FileUploader, rootDir, ['same.md'], 'stores/1', {
+      rateLimiter,
+      retry: { minIntervalMs: 1, maxIntervalMs: 1, multiplier: 1, maxRetries: 2 },
+      onEvent: (event) => events.push(event),
+    });
+
+    expect(result.completed).toEqual(['same.md']);
+    expect(uploadFile).toHaveBeenCalledTimes(2);
+    expect(acquire).toHaveBeenCalledTimes(2);
+    expect(pause).toHaveBeenCalledWith(1);
+    expect(events[0]).toEqual({ type: 'file_retry', path: 'same.md', attempt: 1, delayMs: 1, rateLimited: true, error: rateLimit });
+  });
+
+  it('should leave uploads cancelled while waiting for a token unreported', async () => {
+    const controller = new AbortController();
+    const rateLimiter = new TokenBucket(1, { capacity: 1 });
+    const uploadFile = jest.fn(async (): Promise<void> => {
+      controller.abort();
+    });
+    const events: UploadFileEvent[] = [];
+
+    const result = await uploadFiles({ uploadFile } as unknown as FileUploader, rootDir, ['same.md', 'changed.md'], 'stores/1', {
+      concurrency: 2,
+      rateLimiter,
+      signal: controller.signal,
+      onEvent: (event) => events.push(event),
+    });
+
+    expect(uploadFile).toHaveBeenCalledTimes(1);
+    expect(result).toEqual({ completed: ['same.md'], skipped: [], failed: [] });
+    expect(events.map((event) => event.type)).toEqual(['file_complete']);
+  });
+
+  it('should attach metadata through uploadContent and pass chunking', async () => {
+    const uploadFile = jest.fn(async (): Promise<void> => {});
+    const uploadContent = jest.fn(async (): Promise<void> => {});
+    const chunkingConfig = { whiteSpaceConfig: { maxTokensPerChunk: 200 } };
+
+    await uploadFiles(
+      { uploadFile, uploadContent } as unknown as FileUploader,
+      rootDir,
+      ['same.md', 'changed.md'],
+      'stores/1',
+      {
+        chunkingConfig,
+        metadataFor: (relativePath) => (relativePath === 'same.md' ? { version: '2.x' } : {}),
+      }
+    );
+
+    expect(uploadContent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: path.join(rootDir, 'same.md'),
+        mimeType: 'text/markdown',
+        relativePath: 'same.md',
+        customMetadata: [{ key: 'version', stringValue: '2.x' }],
+      }),
+      'stores/1',
+      { chunkingConfig }
+    );
+    expect(uploadFile).toHaveBeenCalledWith(path.join(rootDir, 'changed.md'), 'stores/1', {
+      relativePath: 'changed.md',
+      chunkingConfig,
+    });
+  });
+
+  it('should fail a file whose metadata cannot be resolved', async () => {
+    const uploadFile = jest.fn(async (): Promise<void> => {});
+    const events: UploadFileEvent[] = [];
+
+    const result = await uploadFiles({ uploadFile } as unknown as FileUploader, rootDir, ['same.md'], 'stores/1', {
+      metadataFor: () => {
+        throw new Error('Invalid sidecar');
+      },
+      onEvent: (event) => events.push(event),
+    });
+
+    expect(result.failed).toEqual(['same.md']);
+    expect(uploadFile).not.toHaveBeenCalled();
+    expect(events).toEqual([{ type: 'file_error', path: 'same.md', error: new Error('Invalid sidecar') }]);
+  });
+});
@@ -0,0 +1,208 @@
+import fs from 'fs';
+import path from 'path';
+import { FileContent, FileUploader, UnsupportedFileTypeError } from '@allenhutchison/gemini-utils';
+import type { ChunkingConfig } from '@google/genai';
+import { DEFAULT_POLLING_CONFIG, PollingConfig, isRateLimitError, withRetry } from '../utils/polling.js';
+import { TokenBucket } from '../utils/rateLimiter.js';
+import { hashFile } from './localFiles.js';
+import { checkFileCompatibility, convertToText, mimeTypeFor } from './mimeCompatibility.js';
+
+export type UploadFileEvent =
+  | { type: 'file_complete'; path: string; bytes: number; durationMs: number }
+  | { type: 'file_skipped'; path: string }
+  | { type: 'file_retry'; path: string; attempt: number; delayMs: number; rateLimited: boolean; error: Error }
+  | { type: 'file_error'; path: string; error: Error };
+
+export interface UploadFileOptions {
+  /** MIME type to upload files with when their type is not recognised */
+  mimeTypeFallback?: string;
+  /** Upload text files without a native MIME type as text/plain under a filename header */
+  convert?: boolean;
+  chunkingConfig?: ChunkingConfig;
+  /** Custom metadata for the document, alongside path, hash and last_modified */
+  metadata?: Record<string, string>;
+}
+
+export interface UploadFilesOptions extends Omit<UploadFileOptions, 'metadata'> {
+  /** Custom metadata for each file, by relative path; may throw to fail that file */
+  metadataFor?: (relativePath: string) => Record<string, string>;
+  /** Skip files whose hash matches the document already stored for their path */
+  smartSync?: boolean;
+  /** Maximum uploads in flight (default: 5) */
+  concurrency?: number;
+  /** Shared limit on upload requests; paused whenever the server answers 429 */
+  rateLimiter?: TokenBucket;
+  /** Backoff for retryable upload errors (default: DEFAULT_POLLING_CONFIG) */
+  retry?: PollingConfig;
+  onEvent?: (event: UploadFileEvent) => void;
+  /** Stops starting new uploads once aborted; uploads already in flight finish */
+  signal?: AbortSignal;
+}
+
+export interface UploadFilesResult {
+  completed: string[];
+  skipped: string[];
+  failed: string[];
+}
+
+export const DEFAULT_UPLOAD_CONCURRENCY = 5;
+
+function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error));
+}
+
+/** Size for throughput reporting; the file may have been removed since it was uploaded */
+function fileSize(filePath: string): number {
+  try {
+    return fs.statSync(filePath).size;
+  } catch {
+    return 0;
+  }
+}
+
+interface ContentOptions {
+  data?: string | Buffer;
+  customMetadata?: FileContent['customMetadata'];
+  chunkingConfig?: ChunkingConfig;
+}
+
+/**
+ * Uploads a file with an explicit MIME type, bypassing the uploader's extension check.
+ * Writes the same metadata as FileUploader.uploadFile; the hash is always that of the
+ * file on disk, so smart sync and mirroring still recognise converted files.
+ */
+async function uploadWithMimeType(
+  fileUploader: FileUploader,
+  filePath: string,
+  storeName: string,
+  relativePath: string,
+  mimeType: string,
+  { data = filePath, customMetadata, chunkingConfig }: ContentOptions = {}
+): Promise<void> {
+  await fileUploader.uploadContent(
+    {
+      data,
+      mimeType,
+      displayName: path.basename(filePath),
+      relativePath,
+      hash: hashFile(filePath),
+      lastModified: fs.statSync(filePath).mtime.toISOString(),
+      customMetadata,
+    },
+    storeName,
+    { chunkingConfig }
+  );
+}
+
+/**
+ * Uploads one file, given relative to rootDir, recording the relative path as the
+ * document's `path` metadata. Throws if the upload fails.
+ *
+ * FileUploader.uploadFile cannot attach custom metadata, so files with metadata go
+ * through uploadContent with the MIME type uploadFile would have picked.
+ */
+export async function uploadLocalFile(
+  fileUploader: FileUploader,
+  rootDir: string,
+  relativePath: string,
+  storeName: string,
+  options: UploadFileOptions = {}
+): Promise<void> {
+  const filePath = path.join(rootDir, relativePath);
+  const { chunkingConfig } = options;
+  const entries = Object.entries(options.metadata ?? {});
+  const customMetadata = entries.length > 0 ? entries.map(([key, stringValue]) => ({ key, stringValue })) : undefined;
+
+  if (options.convert && checkFileCompatibility(filePath, { convert: true }).status === 'converted') {
+    const data = convertToText(relativePath, fs.readFileSync(filePath));
+    await uploadWithMimeType(fileUploader, filePath, storeName, relativePath, 'text/plain', { data, customMetadata, chunkingConfig });
+    return;
+  }
+  try {
+    if (customMetadata) {
+      const mimeType = mimeTypeFor(filePath);
+      if (!mimeType) throw new UnsupportedFileTypeError(filePath, path.extname(filePath));
+      await uploadWithMimeType(fileUploader, filePath, storeName, relativePath, mimeType, { customMetadata, chunkingConfig });
+    } else {
+      await fileUploader.uploadFile(filePath, storeName, { relativePath, chunkingConfig });
+    }
+  } catch (error: unknown) {
+    if (!options.mimeTypeFallback || !(error instanceof UnsupportedFileTypeError)) throw error;
+    await uploadWithMimeType(fileUploader, filePath, storeName, relativePath, options.mimeTypeFallback, { customMetadata, chunkingConfig });
+  }
+}
+
+/**
+ * Uploads a list of files, given relative to rootDir, with up to `concurrency` uploads
+ * in flight. Retryable errors are retried with backoff; a 429 also pauses the rate
+ * limiter for everyone. Other failures are reported per file and do not stop the run.
+ * Files interrupted by the signal are reported neither as completed nor as failed.
+ *
+ * Directory uploads come through here rather than FileUploader.uploadDirectory, which
+ * lists the directory itself (honouring only its root .gitignore) and cannot be given
+ * the files selectUploadFiles chose, the files to skip on resume, or an abort signal.
+ * Uploads still go through uploadLocalFile, so FileUploader.uploadFile validates, hashes
+ * and picks the MIME type of every file without metadata or conversion.
+ */
+export async function uploadFiles(
+  fileUploader: FileUploader,
+  rootDir: string,
+  files: string[],
+  storeName: string,
+  options: UploadFilesOptions = {}
+): Promise<UploadFilesResult> {
+  const result: UploadFilesResult = { completed: [], skipped: [], failed: [] };
+  const existing = options.smartSync ? await fileUploader.getExistingFileHashes(storeName) : undefined;
+  const concurrency = Math.max(1, options.concurrency ?? DEFAULT_UPLOAD_CONCURRENCY);
+  const { signal, rateLimiter } = options;
+
+  const uploadOne = async (relativePath: string): Promise<void> => {
+    const filePath = path.join(rootDir, relativePath);
+    try {
+      const stored = existing?.get(relativePath);
+      if (stored && stored.hash === hashFile(filePath)) {
+        result.skipped.push(relativePath);
+        options.onEvent?.({ type: 'file_skipped', path: relativePath });
+        return;
+      }
+      const metadata = options.metadataFor?.(relativePath);
+      const startedAt = Date.now();
+      await withRetry(
+        async () => {
+          await rateLimiter?.acquire(signal);
+          await uploadLocalFile(fileUploader, rootDir, relativePath, storeName, { ...options, metadata });
+        },
+        {
+          config: options.retry ?? DEFAULT_POLLING_CONFIG,
+          signal,
+          onRetry: (error, attempt, delayMs) => {
+            const rateLimited = isRateLimitError(error);
+            if (rateLimited) rateLimiter?.pause(delayMs);
+            options.onEvent?.({ type: 'file_retry', path: relativePath, attempt, delayMs, rateLimited, error: toError(error) });
+          },
+        }
+      );
+      result.completed.push(relativePath);
+      options.onEvent?.({
+        type: 'file_complete',
+        path: relativePath,
+        bytes: fileSize(filePath),
+        durationMs: Date.now() - startedAt,
+      });
+    } catch (error: unknown) {
+      // Cancelled while waiting for a token or a retry; left for a resume
+      if (signal?.aborted) return;
+      result.failed.push(relativePath);
+      options.onEvent?.({ type: 'file_error', path: relativePath, error: toError(error) });
+    }
+  };
+
+  let next = 0;
+  const worker = async (): Promise<void> => {
+    while (next < files.length && !signal?.aborted) {
+      await uploadOne(files[next++]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, files.length) }, worker));
+  return result;
+}
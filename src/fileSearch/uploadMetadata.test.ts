@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { METADATA_FILE, MetadataError, createMetadataResolver, validateMetadata } from './uploadMetadata';
+
+describe('uploadMetadata', () => {
+  let rootDir: string;
+
+  const writeSidecar = (dir: string, content: string): void => {
+    fs.mkdirSync(path.join(rootDir, dir), { recursive: true });
+    fs.writeFileSync(path.join(rootDir, dir, METADATA_FILE), content);
+  };
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'upload-metadata-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  describe('validateMetadata', () => {
+    it('should accept plain keys', () => {
+      expect(validateMetadata({ project: 'atlas', doc_version: '2.x' })).toBeUndefined();
+    });
+
+    it('should reject reserved and malformed keys and too many entries', () => {
+      expect(validateMetadata({ path: 'x', hash: 'y' })).toBe('Reserved metadata keys: path, hash');
+      expect(validateMetadata({ upload_root: '/x' })).toBe('Reserved metadata keys: upload_root');
+      expect(validateMetadata({ '2nd': 'x' })).toMatch(/^Metadata keys must be letters/);
+      const many = Object.fromEntries(Array.from({ length: 17 }, (_, i) => [`key${i}`, 'v']));
+      expect(validateMetadata(many)).toBe('At most 16 metadata entries are allowed, got 17');
+    });
+  });
+
+  describe('createMetadataResolver', () => {
+    it('should overlay sidecars from the root down, nearer ones winning', () => {
+      writeSidecar('.', JSON.stringify({ project: 'atlas', version: 1 }));
+      writeSidecar('docs/v2', JSON.stringify({ version: '2.x', draft: false }));
+
+      const metadataFor = createMetadataResolver(rootDir, { owner: 'docs-team', project: 'default' });
+
+      expect(metadataFor('README.md')).toEqual({ owner: 'docs-team', project: 'atlas', version: '1' });
+      expect(metadataFor(path.join('docs', 'intro.md'))).toEqual({ owner: 'docs-team', project: 'atlas', version: '1' });
+      expect(metadataFor(path.join('docs', 'v2', 'api.md'))).toEqual({
+        owner: 'docs-team',
+        project: 'atlas',
+        version: '2.x',
+        draft: 'false',
+      });
+    });
+
+    it('should return the base metadata without sidecars', () => {
+      expect(createMetadataResolver(rootDir)('a.md')).toEqual({});
+      expect(createMetadataResolver(rootDir, { project: 'atlas' })('a.md')).toEqual({ project: 'atlas' });
+    });
+
+    it('should reject unreadable or invalid sidecars', () => {
+      writeSidecar('broken', '{ not json');
+      writeSidecar('nested', JSON.stringify({ tags: ['a'] }));
+      writeSidecar('reserved', JSON.stringify({ hash: 'x' }));
+      const metadataFor = createMetadataResolver(rootDir);
+
+      expect(() => metadataFor(path.join('broken', 'a.md'))).toThrow(MetadataError);
+      expect(() => metadataFor(path.join('nested', 'a.md'))).toThrow('must be a JSON object of string, number or boolean values');
+      expect(() => metadataFor(path.join('reserved', 'a.md'))).toThrow('Reserved metadata keys: hash');
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+
+/**
+ * Per-directory sidecar holding metadata for the files in that directory and below.
+ * Hidden, so directory uploads never send it as a document.
+ */
+export const METADATA_FILE = '.geminiresearchmetadata.json';
+
+/** The directory a mirror uploaded a document from; mirrors only manage their own documents */
+export const UPLOAD_ROOT_METADATA_KEY = 'upload_root';
+
+/** Keys written by uploads themselves, which custom metadata may not override */
+export const RESERVED_METADATA_KEYS = ['path', 'hash', 'last_modified', UPLOAD_ROOT_METADATA_KEY];
+
+/** The API allows 20 custom metadata entries per document; uploads use up to 4 of them */
+export const MAX_METADATA_ENTRIES = 16;
+
+const METADATA_KEY_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+const SidecarSchema = z.record(z.string(), z.union([z.string(), z.number(), z.boolean()]));
+
+/**
+ * Thrown when a metadata sidecar cannot be read, or leads to invalid metadata.
+ */
+export class MetadataError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MetadataError';
+  }
+}
+
+/**
+ * Describes what is wrong with a metadata map, or returns undefined if it can be uploaded.
+ */
+export function validateMetadata(metadata: Record<string, string>): string | undefined {
+  const keys = Object.keys(metadata);
+  const reserved = keys.filter((key) => RESERVED_METADATA_KEYS.includes(key));
+  if (reserved.length > 0) {
+    return `Reserved metadata keys: ${reserved.join(', ')}`;
+  }
+  const invalid = keys.filter((key) => !METADATA_KEY_PATTERN.test(key));
+  if (invalid.length > 0) {
+    return `Metadata keys must be letters, digits and underscores, not starting with a digit: ${invalid.join(', ')}`;
+  }
+  if (keys.length > MAX_METADATA_ENTRIES) {
+    return `At most ${MAX_METADATA_ENTRIES} metadata entries are allowed, got ${keys.length}`;
+  }
+  return undefined;
+}
+
+function readSidecar(dir: string): Record<string, string> | undefined {
+  const filePath = path.join(dir, METADATA_FILE);
+  if (!fs.existsSync(filePath)) return undefined;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new MetadataError(`Could not read ${filePath}: ${message}`);
+  }
+  const result = SidecarSchema.safeParse(parsed);
+  if (!result.success) {
+    throw new MetadataError(`${filePath} must be a JSON object of string, number or boolean values`);
+  }
+  return Object.fromEntries(Object.entries(result.data).map(([key, value]) => [key, String(value)]));
+}
+
+/**
+ * Returns a lookup of each file's metadata, given relative to rootDir: `base` overlaid
+ * with the sidecar files from rootDir down to the file's directory, nearer ones
+ * winning. The lookup throws MetadataError for unreadable sidecars or invalid results.
+ */
+export function createMetadataResolver(
+  rootDir: string,
+  base: Record<string, string> = {}
+): (relativePath: string) => Record<string, string> {
+  const byDirectory = new Map<string, Record<string, string>>();
+
+  const forDirectory = (relativeDir: string): Record<string, string> => {
+    const cached = byDirectory.get(relativeDir);
+    if (cached) return cached;
+
+    const inherited = relativeDir === '.' ? base : forDirectory(path.dirname(relativeDir));
+    const sidecar = readSidecar(path.join(rootDir, relativeDir));
+    const metadata = sidecar ? { ...inherited, ...sidecar } : inherited;
+    const problem = sidecar && validateMetadata(metadata);
+    if (problem) {
+      throw new MetadataError(`${path.join(rootDir, relativeDir, METADATA_FILE)}: ${problem}`);
+    }
+    byDirectory.set(relativeDir, metadata);
+    return metadata;
+  };
+
+  return (relativePath) => forDirectory(path.dirname(relativePath));
+}
@@ -0,0 +1,46 @@
+import { describe, it, expect } from '@jest/globals';
+import { recordProcessedFile, startTiming, summarizeThroughput } from './uploadMetrics';
+
+describe('uploadMetrics', () => {
+  const start = new Date('2026-01-01T00:00:00Z');
+
+  it('should track processed files and keep the slowest uploads', () => {
+    const timing = startTiming(start);
+    for (let i = 1; i <= 7; i++) {
+      recordProcessedFile(timing, { path: `f${i}.md`, durationMs: i * 100, bytes: 1000 });
+    }
+    recordProcessedFile(timing);
+
+    expect(timing).toMatchObject({ filesProcessed: 8, filesUploaded: 7, bytesUploaded: 7000, uploadMs: 2800 });
+    expect(timing.slowestFiles.map((file) => file.path)).toEqual(['f7.md', 'f6.md', 'f5.md', 'f4.md', 'f3.md']);
+  });
+
+  it('should compute rates and an ETA from the remaining files', () => {
+    const timing = startTiming(start);
+    recordProcessedFile(timing, { path: 'a.md', durationMs: 1500, bytes: 4000 });
+    recordProcessedFile(timing, { path: 'b.md', durationMs: 500, bytes: 6000 });
+    timing.retries = 1;
+
+    const throughput = summarizeThroughput(timing, 10, new Date(start.getTime() + 4000));
+
+    expect(throughput).toEqual({
+      elapsedSeconds: 4,
+      filesPerSecond: 0.5,
+      bytesPerSecond: 2500,
+      averageUploadMs: 1000,
+      etaSeconds: 20,
+      retries: 1,
+      slowestFiles: timing.slowestFiles,
+    });
+  });
+
+  it('should give no ETA before any file was processed or once none remain', () => {
+    const timing = startTiming(start);
+    const end = new Date(start.getTime() + 1000);
+
+    expect(summarizeThroughput(timing, 5, end).etaSeconds).toBeUndefined();
+    recordProcessedFile(timing);
+    expect(summarizeThroughput(timing, 0, end).etaSeconds).toBeUndefined();
+    expect(summarizeThroughput(timing, 0, end).averageUploadMs).toBeUndefined();
+  });
+});
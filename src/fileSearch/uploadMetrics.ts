@@ -0,0 +1,59 @@
+import type { FileTiming, UploadTiming } from '../config/WorkspaceConfig.js';
+
+/** Number of slowest uploads kept for the status output */
+const SLOWEST_FILES = 5;
+
+export interface Throughput {
+  elapsedSeconds: number;
+  filesPerSecond: number;
+  bytesPerSecond: number;
+  averageUploadMs?: number;
+  /** Estimated seconds until the remaining files are processed, while running */
+  etaSeconds?: number;
+  retries: number;
+  slowestFiles: FileTiming[];
+}
+
+export function startTiming(now: Date = new Date()): UploadTiming {
+  return {
+    runStartedAt: now.toISOString(),
+    filesProcessed: 0,
+    filesUploaded: 0,
+    bytesUploaded: 0,
+    uploadMs: 0,
+    retries: 0,
+    slowestFiles: [],
+  };
+}
+
+/**
+ * Counts a processed file; pass its timing if it was actually uploaded.
+ */
+export function recordProcessedFile(timing: UploadTiming, uploaded?: FileTiming): void {
+  timing.filesProcessed++;
+  if (!uploaded) return;
+  timing.filesUploaded++;
+  timing.bytesUploaded += uploaded.bytes;
+  timing.uploadMs += uploaded.durationMs;
+  timing.slowestFiles = [...timing.slowestFiles, uploaded]
+    .sort((a, b) => b.durationMs - a.durationMs)
+    .slice(0, SLOWEST_FILES);
+}
+
+/**
+ * Rates over the run so far. An ETA is only given while files remain and the run has
+ * processed at least one file.
+ */
+export function summarizeThroughput(timing: UploadTiming, remainingFiles: number, end: Date = new Date()): Throughput {
+  const elapsedSeconds = Math.max(0.001, (end.getTime() - new Date(timing.runStartedAt).getTime()) / 1000);
+  const filesPerSecond = timing.filesProcessed / elapsedSeconds;
+  return {
+    elapsedSeconds: Math.round(elapsedSeconds),
+    filesPerSecond: Math.round(filesPerSecond * 100) / 100,
+    bytesPerSecond: Math.round(timing.bytesUploaded / elapsedSeconds),
+    averageUploadMs: timing.filesUploaded > 0 ? Math.round(timing.uploadMs / timing.filesUploaded) : undefined,
+    etaSeconds: remainingFiles > 0 && filesPerSecond > 0 ? Math.round(remainingFiles / filesPerSecond) : undefined,
+    retries: timing.retries,
+    slowestFiles: timing.slowestFiles,
+  };
+}
@@ -4,9 +4,9 @@ import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals
 const mockCreateStore = jest.fn();
 const mockListStores = jest.fn();
 const mockDeleteStore = jest.fn();
-const mockQueryStore = jest.fn();
-const mockUploadFile = jest.fn();
-const mockUploadDirectory = jest.fn();
+const mockListDocuments = jest.fn();
+const mockGetDocument = jest.fn();
+const mockDeleteDocument = jest.fn();
 const mockCreateOperation = jest.fn();
 const mockGetOperation = jest.fn();
 const mockMarkInProgress = jest.fn();
@@ -16,6 +16,8 @@ const mockUpdateProgress = jest.fn();
 const mockAddFailedFile = jest.fn();
 const mockStartResearch = jest.fn();
 const mockGetStatus = jest.fn();
+const mockCancel = jest.fn();
+const mockDelete = jest.fn();
 const mockGenerateMarkdown = jest.fn();
 
 jest.unstable_mockModule('@allenhutchison/gemini-utils', () => ({
@@ -23,12 +25,11 @@ jest.unstable_mockModule('@allenhutchison/gemini-utils', () => ({
     createStore: mockCreateStore,
     listStores: mockListStores,
     deleteStore: mockDeleteStore,
-    queryStore: mockQueryStore,
-  })),
-  FileUploader: jest.fn().mockImplementation(() => ({
-    uploadFile: mockUploadFile,
-    uploadDirectory: mockUploadDirectory,
+    listDocuments: mockListDocuments,
+    getDocument: mockGetDocument,
+    deleteDocument: mockDeleteDocument,
   })),
+  FileUploader: jest.fn().mockImplementation(() => ({})),
   UploadOperationManager: jest.fn().mockImplementation(() => ({
     createOperation: mockCreateOperation,
     getOperation: mockGetOperation,
@@ -41,17 +42,24 @@ jest.unstable_mockModule('@allenhutchison/gemini-utils', () => ({
   ResearchManager: jest.fn().mockImplementation(() => ({
     startResearch: mockStartResearch,
     getStatus: mockGetStatus,
+    cancel: mockCancel,
+    delete: mockDelete,
   })),
   ReportGenerator: jest.fn().mockImplementation(() => ({
     generateMarkdown: mockGenerateMarkdown,
   })),
   Interaction: {},
   TextContent: {},
+  isTerminalStatus: (status: string): boolean => ['completed', 'failed', 'cancelled'].includes(status),
 }));
 
 // Mock GoogleGenAI
+const mockInteractionsCreate = jest.fn();
+
 jest.unstable_mockModule('@google/genai', () => ({
-  GoogleGenAI: jest.fn().mockImplementation(() => ({})),
+  GoogleGenAI: jest.fn().mockImplementation(() => ({
+    interactions: { create: mockInteractionsCreate },
+  })),
 }));
 
 // Mock fs
@@ -59,6 +67,8 @@ const mockExistsSync = jest.fn();
 const mockStatSync = jest.fn();
 const mockWriteFileSync = jest.fn();
 const mockReadFileSync = jest.fn();
+const mockReaddirSync = jest.fn(() => [] as string[]);
+const mockRmSync = jest.fn();
 
 jest.unstable_mockModule('fs', () => ({
   default: {
@@ -66,29 +76,158 @@ jest.unstable_mockModule('fs', () => ({
     statSync: mockStatSync,
     writeFileSync: mockWriteFileSync,
     readFileSync: mockReadFileSync,
+    readdirSync: mockReaddirSync,
+    rmSync: mockRmSync,
   },
   existsSync: mockExistsSync,
   statSync: mockStatSync,
   writeFileSync: mockWriteFileSync,
   readFileSync: mockReadFileSync,
+  readdirSync: mockReaddirSync,
+  rmSync: mockRmSync,
 }));
 
 // Mock WorkspaceConfig
 const mockAddFileSearchStore = jest.fn();
-const mockAddResearchId = jest.fn();
+const mockRemoveFileSearchStore = jest.fn();
+const mockAddResearchSession = jest.fn();
+const mockGetResearchSession = jest.fn();
+const mockUpdateResearchSession = jest.fn();
+const mockListResearchSessions = jest.fn();
+const mockRemoveResearchSession = jest.fn();
+const mockGetResearchThread = jest.fn();
+const mockGetPollingOverrides = jest.fn();
+const mockGetOutputDirectories = jest.fn(() => [] as string[]);
+const mockGetReportsDirectory = jest.fn();
+const mockGetCacheLimits = jest.fn(() => ({}));
+const mockUpdateUploadOperation = jest.fn();
+const mockMarkInterruptedUploadOperations = jest.fn(() => [] as string[]);
+const mockListUploadOperations = jest.fn();
+const mockGetUploadRetention = jest.fn(() => ({ maxOperations: 100, maxAgeDays: 30 }));
+const mockPruneUploadOperations = jest.fn((_options?: unknown) => [] as Array<{ id: string }>);
+const mockAddChatSession = jest.fn();
+const mockGetChatSession = jest.fn();
+const mockAppendChatTurn = jest.fn();
+const mockRemoveChatSession = jest.fn();
 const mockLoad = jest.fn();
 
 jest.unstable_mockModule('./config/WorkspaceConfig.js', () => ({
   WorkspaceConfigManager: {
     addFileSearchStore: mockAddFileSearchStore,
-    addResearchId: mockAddResearchId,
+    removeFileSearchStore: mockRemoveFileSearchStore,
+    addResearchSession: mockAddResearchSession,
+    getResearchSession: mockGetResearchSession,
+    updateResearchSession: mockUpdateResearchSession,
+    listResearchSessions: mockListResearchSessions,
+    removeResearchSession: mockRemoveResearchSession,
+    getResearchThread: mockGetResearchThread,
+    getPollingOverrides: mockGetPollingOverrides,
+    getOutputDirectories: mockGetOutputDirectories,
+    getReportsDirectory: mockGetReportsDirectory,
+    getCacheLimits: mockGetCacheLimits,
+    updateUploadOperation: mockUpdateUploadOperation,
+    markInterruptedUploadOperations: mockMarkInterruptedUploadOperations,
+    listUploadOperations: mockListUploadOperations,
+    getUploadRetention: mockGetUploadRetention,
+    pruneUploadOperations: mockPruneUploadOperations,
+    addChatSession: mockAddChatSession,
+    getChatSession: mockGetChatSession,
+    appendChatTurn: mockAppendChatTurn,
+    removeChatSession: mockRemoveChatSession,
     load: mockLoad,
   },
   WorkspaceOperationStorage: jest.fn(),
+  DEFAULT_CHAT_MAX_TURNS: 20,
+  UPLOAD_OPERATION_STATUSES: ['pending', 'in_progress', 'completed', 'failed', 'cancelled', 'interrupted'],
+}));
+
+// Mock output path handling
+class MockOutputPathError extends Error {}
+const mockPrepareOutputPath = jest.fn((filePath: string, _options?: unknown) => filePath);
+const mockWriteFileAtomic = jest.fn();
+
+jest.unstable_mockModule('./utils/outputPath.js', () => ({
+  OutputPathError: MockOutputPathError,
+  prepareOutputPath: mockPrepareOutputPath,
+  writeFileAtomic: mockWriteFileAtomic,
+}));
+
+// Mock store resolution (references resolve to themselves unless a test says otherwise)
+class MockStoreResolutionError extends Error {}
+const mockResolveStore = jest.fn(async (reference: string) => reference);
+const mockResolveAllStores = jest.fn(async (references: string[]) => references);
+
+jest.unstable_mockModule('./fileSearch/StoreResolver.js', () => ({
+  StoreResolutionError: MockStoreResolutionError,
+  StoreResolver: jest.fn().mockImplementation(() => ({
+    resolve: mockResolveStore,
+    resolveAll: mockResolveAllStores,
+  })),
+}));
+
+// Mock store mirroring
+const mockMirrorPlan = jest.fn();
+const mockMirrorApply = jest.fn();
+const mockExcludeFromPlan = jest.fn((plan: unknown, _paths: Set<string>) => plan);
+const mockRestrictPlan = jest.fn((plan: unknown, _paths: Set<string>) => plan);
+
+jest.unstable_mockModule('./fileSearch/StoreMirror.js', () => ({
+  StoreMirror: jest.fn().mockImplementation(() => ({
+    plan: mockMirrorPlan,
+    apply: mockMirrorApply,
+  })),
+  excludeFromPlan: mockExcludeFromPlan,
+  restrictPlan: mockRestrictPlan,
+}));
+
+// Mock local file selection and the upload loop
+const mockSelectUploadFiles = jest.fn(() => ({ files: [] as string[], skippedByRules: 0 }));
+const mockUploadFiles = jest.fn();
+const mockUploadLocalFile = jest.fn();
+
+jest.unstable_mockModule('./fileSearch/localFiles.js', () => ({
+  selectUploadFiles: mockSelectUploadFiles,
+}));
+
+jest.unstable_mockModule('./fileSearch/uploadFiles.js', () => ({
+  DEFAULT_UPLOAD_CONCURRENCY: 5,
+  uploadFiles: mockUploadFiles,
+  uploadLocalFile: mockUploadLocalFile,
+}));
+
+// Mock MIME compatibility checks
+const mockCheckFileCompatibility = jest.fn();
+
+jest.unstable_mockModule('./fileSearch/mimeCompatibility.js', () => ({
+  checkFileCompatibility: mockCheckFileCompatibility,
+}));
+
+// Mock metadata sidecars: every file gets the upload's own metadata
+const mockCreateMetadataResolver = jest.fn((_rootDir: unknown, base: unknown) => (): unknown => base ?? {});
+const mockValidateMetadata = jest.fn();
+
+jest.unstable_mockModule('./fileSearch/uploadMetadata.js', () => ({
+  METADATA_FILE: '.geminiresearchmetadata.json',
+  createMetadataResolver: mockCreateMetadataResolver,
+  validateMetadata: mockValidateMetadata,
+}));
+
+// Mock the interaction cache (always a miss unless a test says otherwise)
+const mockCacheGet = jest.fn();
+const mockCacheSet = jest.fn();
+const mockCacheDelete = jest.fn();
+
+jest.unstable_mockModule('./research/InteractionCache.js', () => ({
+  InteractionCache: jest.fn().mockImplementation(() => ({
+    get: mockCacheGet,
+    set: mockCacheSet,
+    delete: mockCacheDelete,
+  })),
 }));
 
 // Mock MCP SDK
 const mockRegisterTool = jest.fn();
+const mockSendNotification = jest.fn();
 const mockConnect = jest.fn();
 
 jest.unstable_mockModule('@modelcontextprotocol/sdk/server/mcp.js', () => ({
@@ -117,17 +256,37 @@ function parseResultText(result: unknown): Record<string, unknown> {
   return JSON.parse(mcpResult.content[0].text);
 }
 
+// Helper building an upload operation record as UploadOperationManager stores it
+function uploadOperation(id: string, overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    id,
+    status: 'pending',
+    path: '/test/dir',
+    storeName: 'stores/123',
+    smartSync: false,
+    totalFiles: 0,
+    completedFiles: 0,
+    skippedFiles: 0,
+    failedFiles: 0,
+    failedFilesList: [],
+    startedAt: '2024-01-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
 describe('MCP Server Tools', () => {
   // Store tool handlers for testing
-  let toolHandlers: Record<string, (params: Record<string, unknown>) => Promise<unknown>>;
+  type ToolHandler = (params: Record<string, unknown>, extra?: Record<string, unknown>) => Promise<unknown>;
+  let toolHandlers: Record<string, ToolHandler>;
 
   beforeEach(async () => {
     jest.clearAllMocks();
     toolHandlers = {};
 
-    // Capture tool handlers when registerTool is called
+    // Capture tool handlers when registerTool is called, supplying default request context
     mockRegisterTool.mockImplementation((name: unknown, _schema: unknown, handler: unknown) => {
-      toolHandlers[name as string] = handler as (params: Record<string, unknown>) => Promise<unknown>;
+      toolHandlers[name as string] = (params, extra = { sendNotification: mockSendNotification }): Promise<unknown> =>
+        (handler as ToolHandler)(params, extra);
     });
 
     // Import the module to trigger tool registration
@@ -222,8 +381,8 @@ describe('MCP Server Tools', () => {
         isDirectory: () => true,
         isFile: () => false,
       });
-      mockCreateOperation.mockReturnValue({ id: 'op-123' });
-      mockUploadDirectory.mockResolvedValue(undefined);
+      mockCreateOperation.mockReturnValue(uploadOperation('op-123'));
+      mockUploadFiles.mockResolvedValue({ completed: [], skipped: [], failed: [] });
 
       const result = await toolHandlers['file_search_upload']({
         path: '/test/dir',
@@ -240,14 +399,90 @@ describe('MCP Server Tools', () => {
       });
     });
 
+    it('should upload only the files selected by ignore rules and globs', async () => {
+      mockExistsSync.mockReturnValue(true);
+      mockStatSync.mockReturnValue({ isDirectory: () => true, isFile: () => false });
+      mockCreateOperation.mockReturnValue(uploadOperation('op-321'));
+      mockSelectUploadFiles.mockReturnValueOnce({ files: ['a.md', 'docs/b.md'], skippedByRules: 4 });
+      mockUploadFiles.mockImplementation(async (...args: unknown[]) => {
+        const options = args[4] as { onEvent: (event: Record<string, unknown>) => void };
+        options.onEvent({ type: 'file_complete', path: 'a.md', bytes: 120, durationMs: 40 });
+        options.onEvent({ type: 'file_error', path: 'docs/b.md', error: new Error('Unsupported type') });
+      });
+
+      await toolHandlers['file_search_upload']({
+        path: '/test/dir',
+        storeName: 'stores/123',
+        smartSync: false,
+        include: ['*.md'],
+        exclude: ['drafts/'],
+      });
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(mockSelectUploadFiles).toHaveBeenCalledWith('/test/dir', { include: ['*.md'], exclude: ['drafts/'] });
+      expect(mockUpdateUploadOperation).toHaveBeenCalledWith('op-321', { skippedByRules: 4 });
+      expect(mockMarkInProgress).toHaveBeenCalledWith('op-321', 2);
+      expect(mockUploadFiles).toHaveBeenCalledWith(
+        expect.anything(),
+        '/test/dir',
+        ['a.md', 'docs/b.md'],
+        'stores/123',
+        expect.objectContaining({ smartSync: false })
+      );
+      expect(mockUpdateUploadOperation).toHaveBeenCalledWith('op-321', {
+        completedFiles: 1,
+        skippedFiles: 0,
+        failedFiles: 0,
+        processedFiles: ['a.md'],
+        timing: expect.any(Object),
+      });
+      expect(mockAddFailedFile).toHaveBeenCalledWith('op-321', 'docs/b.md', 'Unsupported type');
+      expect(mockMarkCompleted).toHaveBeenCalledWith('op-321');
+    });
+
+    it('should record concurrency and a rate limit and apply them to the upload', async () => {
+      mockExistsSync.mockReturnValue(true);
+      mockStatSync.mockReturnValue({ isDirectory: () => true, isFile: () => false });
+      mockCreateOperation.mockReturnValue(uploadOperation('op-654'));
+      mockSelectUploadFiles.mockReturnValueOnce({ files: ['a.md'], skippedByRules: 0 });
+      mockUploadFiles.mockResolvedValue({ completed: [], skipped: [], failed: [] });
+
+      await toolHandlers['file_search_upload']({
+        path: '/test/dir',
+        storeName: 'stores/123',
+        smartSync: false,
+        concurrency: 3,
+        requestsPerMinute: 30,
+      });
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(mockUpdateUploadOperation).toHaveBeenCalledWith('op-654', {
+        include: undefined,
+        exclude: undefined,
+        concurrency: 3,
+        requestsPerMinute: 30,
+      });
+      expect(mockUploadFiles).toHaveBeenCalledWith(
+        expect.anything(),
+        '/test/dir',
+        ['a.md'],
+        'stores/123',
+        expect.objectContaining({
+          concurrency: 3,
+          // 30 requests per minute, bursting up to one per worker
+          rateLimiter: expect.objectContaining({ ratePerSecond: 0.5, capacity: 3 }),
+        })
+      );
+    });
+
     it('should start single file upload', async () => {
       mockExistsSync.mockReturnValue(true);
       mockStatSync.mockReturnValue({
         isDirectory: () => false,
         isFile: () => true,
       });
-      mockCreateOperation.mockReturnValue({ id: 'op-456' });
-      mockUploadFile.mockResolvedValue(undefined);
+      mockCreateOperation.mockReturnValue(uploadOperation('op-456'));
+      mockUploadLocalFile.mockResolvedValue(undefined);
 
       const result = await toolHandlers['file_search_upload']({
         path: '/test/file.txt',
@@ -263,6 +498,257 @@ describe('MCP Server Tools', () => {
         }],
       });
     });
+
+    it('should record a failed single file so it can be retried', async () => {
+      mockExistsSync.mockReturnValue(true);
+      mockStatSync.mockReturnValue({ isDirectory: () => false, isFile: () => true, size: 10 });
+      mockCreateOperation.mockReturnValue(uploadOperation('op-bad', { path: '/test/notes.xyz' }));
+      mockUploadLocalFile.mockRejectedValueOnce(new Error('Unsupported file type: .xyz'));
+
+      await toolHandlers['file_search_upload']({ path: '/test/notes.xyz', storeName: 'stores/123', smartSync: false });
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(mockAddFailedFile).toHaveBeenCalledWith('op-bad', 'notes.xyz', 'Unsupported file type: .xyz');
+      expect(mockMarkFailed).toHaveBeenCalledWith('op-bad', 'Unsupported file type: .xyz');
+
+      mockGetOperation.mockReturnValue(uploadOperation('op-bad', {
+        path: '/test/notes.xyz',
+        status: 'failed',
+        failedFiles: 1,
+        failedFilesList: [{ file: 'notes.xyz', error: 'Unsupported file type: .xyz' }],
+      }));
+      mockCreateOperation.mockReturnValue(uploadOperation('op-bad-retry', { path: '/test/notes.xyz' }));
+      mockUploadLocalFile.mockResolvedValueOnce(undefined);
+
+      const retry = await toolHandlers['file_search_upload_retry']({ operationId: 'op-bad', mimeTypeFallback: 'text/plain' });
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect((retry as McpToolResult).isError).toBeUndefined();
+      expect(mockUploadLocalFile).toHaveBeenLastCalledWith(expect.anything(), '/test', 'notes.xyz', 'stores/123', expect.objectContaining({
+        mimeTypeFallback: 'text/plain',
+      }));
+      expect(mockMarkCompleted).toHaveBeenCalledWith('op-bad-retry');
+    });
+
+    it('should record the convert setting and apply it to the upload', async () => {
+      mockExistsSync.mockReturnValue(true);
+      mockStatSync.mockReturnValue({ isDirectory: () => false, isFile: () => true });
+      mockCreateOperation.mockReturnValue(uploadOperation('op-conv', { path: '/test/Dockerfile' }));
+      mockUploadLocalFile.mockResolvedValue(undefined);
+
+      await toolHandlers['file_search_upload']({
+        path: '/test/Dockerfile',
+        storeName: 'stores/123',
+        smartSync: false,
+        convert: true,
+      });
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(mockUpdateUploadOperation).toHaveBeenCalledWith('op-conv', { include: undefined, exclude: undefined, convert: true });
+      expect(mockUploadLocalFile).toHaveBeenCalledWith(expect.anything(), '/test', 'Dockerfile', 'stores/123', {
+        mimeTypeFallback: undefined,
+        convert: true,
+        metadata: {},
+      });
+      expect(mockMarkCompleted).toHaveBeenCalledWith('op-conv');
+    });
+
+    it('should record metadata and chunking and apply them to the upload', async () => {
+      mockExistsSync.mockReturnValue(true);
+      mockStatSync.mockReturnValue({ isDirectory: () => false, isFile: () => true });
+      mockCreateOperation.mockReturnValue(uploadOperation('op-meta', { path: '/test/guide.md' }));
+      mockUploadLocalFile.mockResolvedValue(undefined);
+
+      await toolHandlers['file_search_upload']({
+        path: '/test/guide.md',
+        storeName: 'stores/123',
+        smartSync: false,
+        metadata: { project: 'atlas', version: '2.x' },
+        chunking: { maxTokensPerChunk: 400, maxOverlapTokens: 40 },
+      });
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(mockUpdateUploadOperation).toHaveBeenCalledWith('op-meta', {
+        include: undefined,
+        exclude: undefined,
+        metadata: { project: 'atlas', version: '2.x' },
+        chunking: { maxTokensPerChunk: 400, maxOverlapTokens: 40 },
+      });
+      expect(mockCreateMetadataResolver).toHaveBeenCalledWith('/test', { project: 'atlas', version: '2.x' });
+      expect(mockUploadLocalFile).toHaveBeenCalledWith(expect.anything(), '/test', 'guide.md', 'stores/123', expect.objectContaining({
+        metadata: { project: 'atlas', version: '2.x' },
+        chunkingConfig: { whiteSpaceConfig: { maxTokensPerChunk: 400, maxOverlapTokens: 40 } },
+      }));
+    });
+
+    it('should reject invalid metadata and chunking', async () => {
+      mockExistsSync.mockReturnValue(true);
+      mockStatSync.mockReturnValue({ isDirectory: () => true, isFile: () => false });
+      mockValidateMetadata.mockReturnValueOnce('Reserved metadata keys: path');
+
+      const badMetadata = await toolHandlers['file_search_upload']({
+        path: '/test/dir',
+        storeName: 'stores/123',
+        metadata: { path: 'elsewhere' },
+      });
+      const badChunking = await toolHandlers['file_search_upload']({
+        path: '/test/dir',
+        storeName: 'stores/123',
+        chunking: { maxTokensPerChunk: 100, maxOverlapTokens: 100 },
+      });
+
+      expect(badMetadata).toEqual({ isError: true, content: [{ type: 'text', text: 'Reserved metadata keys: path' }] });
+      expect(badChunking).toEqual({
+        isError: true,
+        content: [{ type: 'text', text: 'chunking.maxOverlapTokens must be smaller than chunking.maxTokensPerChunk' }],
+      });
+      expect(mockCreateOperation).not.toHaveBeenCalled();
+    });
+
+    describe('mirror mode', () => {
+      const plan = {
+        add: ['new.md'],
+        update: ['changed.md'],
+        unchanged: ['same.md'],
+        delete: [
+          { path: 'changed.md', documentName: 'fileSearchStores/s/documents/old', reason: 'superseded' },
+          { path: 'gone.md', documentName: 'fileSearchStores/s/documents/gone', reason: 'removed' },
+        ],
+        unmanaged: 0,
+        skippedByRules: 2,
+      };
+
+      beforeEach(() => {
+        mockExistsSync.mockReturnValue(true);
+        mockStatSync.mockReturnValue({ isDirectory: () => true, isFile: () => false });
+        mockMirrorPlan.mockResolvedValue(plan);
+      });
+
+      it('should report the plan without changing anything on a dry run', async () => {
+        const result = await toolHandlers['file_search_upload']({
+          path: '/test/dir',
+          storeName: 'stores/123',
+          mirror: true,
+          dryRun: true,
+        });
+
+        expect(mockMirrorPlan).toHaveBeenCalledWith('/test/dir', 'stores/123', { include: undefined, exclude: undefined });
+        expect(mockCreateOperation).not.toHaveBeenCalled();
+        expect(mockMirrorApply).not.toHaveBeenCalled();
+        const report = parseResultText(result);
+        expect(report.summary).toEqual({ add: 1, update: 1, unchanged: 1, delete: 2, unmanaged: 0, skippedByRules: 2 });
+        expect(report.delete).toEqual(plan.delete);
+      });
+
+      it('should reject dryRun without mirror', async () => {
+        const result = await toolHandlers['file_search_upload']({
+          path: '/test/dir',
+          storeName: 'stores/123',
+          dryRun: true,
+        });
+
+        expect(result).toEqual({
+          isError: true,
+          content: [{ type: 'text', text: 'dryRun is only supported together with mirror: true' }],
+        });
+      });
+
+      it('should reject mirroring a single file', async () => {
+        mockStatSync.mockReturnValue({ isDirectory: () => false, isFile: () => true });
+
+        const result = await toolHandlers['file_search_upload']({
+          path: '/test/file.md',
+          storeName: 'stores/123',
+          mirror: true,
+        });
+
+        expect(result).toEqual({
+          isError: true,
+          content: [{ type: 'text', text: 'Mirror mode requires a directory: /test/file.md' }],
+        });
+      });
+
+      it('should apply the plan in the background and track deletions', async () => {
+        mockCreateOperation.mockReturnValue(uploadOperation('op-789'));
+        mockMirrorApply.mockImplementation(async (...args: unknown[]) => {
+          const onProgress = args[3] as (event: Record<string, unknown>) => void;
+          onProgress({ type: 'file_complete', path: 'new.md', bytes: 64, durationMs: 25 });
+          onProgress({ type: 'document_deleted', path: 'gone.md', documentName: 'fileSearchStores/s/documents/gone' });
+        });
+
+        await toolHandlers['file_search_upload']({
+          path: '/test/dir',
+          storeName: 'stores/123',
+          mirror: true,
+        });
+        await new Promise((resolve) => setImmediate(resolve));
+
+        expect(mockCreateOperation).toHaveBeenCalledWith('/test/dir', 'stores/123', true);
+        expect(mockUpdateUploadOperation).toHaveBeenCalledWith('op-789', {
+          include: undefined,
+          exclude: undefined,
+          concurrency: undefined,
+          requestsPerMinute: undefined,
+          mirror: true,
+          deletedFiles: 0,
+        });
+        expect(mockMarkInProgress).toHaveBeenCalledWith('op-789', 3);
+        expect(mockMirrorApply).toHaveBeenCalledWith(plan, '/test/dir', 'stores/123', expect.any(Function), {
+          signal: expect.any(AbortSignal),
+          mimeTypeFallback: undefined,
+          convert: undefined,
+          concurrency: 5,
+          rateLimiter: undefined,
+          chunkingConfig: undefined,
+          metadataFor: expect.any(Function),
+        });
+        expect(mockUpdateProgress).toHaveBeenCalledWith('op-789', 0, 1, 0);
+        expect(mockUpdateUploadOperation).toHaveBeenCalledWith('op-789', {
+          completedFiles: 1,
+          skippedFiles: 1,
+          failedFiles: 0,
+          processedFiles: ['new.md'],
+          timing: expect.any(Object),
+        });
+        expect(mockUpdateUploadOperation).toHaveBeenLastCalledWith('op-789', { deletedFiles: 1 });
+        expect(mockMarkCompleted).toHaveBeenCalledWith('op-789');
+      });
+    });
+  });
+
+  describe('file_search_upload_preview', () => {
+    it('should group the selected files by how they would upload', async () => {
+      mockExistsSync.mockReturnValue(true);
+      mockStatSync.mockReturnValue({ isDirectory: () => true, isFile: () => false });
+      mockSelectUploadFiles.mockReturnValueOnce({ files: ['README.md', 'src/app.ts', 'logo.png'], skippedByRules: 3 });
+      mockCheckFileCompatibility.mockImplementation((filePath: unknown) => {
+        if (String(filePath).endsWith('.md')) return { status: 'native', mimeType: 'text/markdown' };
+        if (String(filePath).endsWith('.ts')) return { status: 'converted', mimeType: 'text/plain' };
+        return { status: 'rejected', reason: 'Unsupported file type: .png' };
+      });
+
+      const result = await toolHandlers['file_search_upload_preview']({ path: '/test/dir', convert: true });
+
+      expect(mockSelectUploadFiles).toHaveBeenCalledWith('/test/dir', { include: undefined, exclude: undefined });
+      expect(mockCheckFileCompatibility).toHaveBeenCalledWith('/test/dir/src/app.ts', { convert: true });
+      expect(parseResultText(result)).toEqual({
+        path: '/test/dir',
+        convert: true,
+        summary: { native: 1, fallback: 0, converted: 1, rejected: 1, skippedByRules: 3 },
+        native: ['README.md'],
+        fallback: [],
+        converted: ['src/app.ts'],
+        rejected: [{ path: 'logo.png', reason: 'Unsupported file type: .png' }],
+      });
+    });
+
+    it('should return error if path does not exist', async () => {
+      mockExistsSync.mockReturnValue(false);
+
+      const result = await toolHandlers['file_search_upload_preview']({ path: '/missing', convert: false });
+
+      expect(result).toEqual({ isError: true, content: [{ type: 'text', text: 'Path not found: /missing' }] });
+    });
   });
 
   describe('file_search_delete_store', () => {
@@ -275,10 +761,20 @@ describe('MCP Server Tools', () => {
       });
 
       expect(mockDeleteStore).toHaveBeenCalledWith('stores/123', true);
+      expect(mockRemoveFileSearchStore).toHaveBeenCalledWith('stores/123');
       expect(result).toEqual({
         content: [{ type: 'text', text: 'Deleted store: stores/123' }],
       });
     });
+
+    it('should resolve display names before deleting', async () => {
+      mockResolveStore.mockResolvedValueOnce('fileSearchStores/docs-1');
+
+      await toolHandlers['file_search_delete_store']({ name: 'Docs', force: false });
+
+      expect(mockResolveStore).toHaveBeenCalledWith('Docs');
+      expect(mockDeleteStore).toHaveBeenCalledWith('fileSearchStores/docs-1', false);
+    });
   });
 
   describe('file_search_upload_status', () => {
@@ -316,6 +812,56 @@ describe('MCP Server Tools', () => {
       expect((parsed.progress as Record<string, unknown>).percentage).toBe(70);
     });
 
+    it('should report files skipped by ignore rules', async () => {
+      mockGetOperation.mockReturnValue({
+        id: 'op-123',
+        status: 'completed',
+        path: '/test/dir',
+        storeName: 'stores/123',
+        smartSync: false,
+        totalFiles: 3,
+        completedFiles: 3,
+        skippedFiles: 0,
+        failedFiles: 0,
+        failedFilesList: [],
+        startedAt: '2024-01-01T00:00:00Z',
+        skippedByRules: 12,
+      });
+
+      const result = await toolHandlers['file_search_upload_status']({ operationId: 'op-123' });
+
+      expect((parseResultText(result).progress as Record<string, unknown>).skippedByRules).toBe(12);
+    });
+
+    it('should report throughput for the latest run', async () => {
+      mockGetOperation.mockReturnValue(uploadOperation('op-123', {
+        status: 'completed',
+        totalFiles: 3,
+        completedFiles: 3,
+        completedAt: '2024-01-01T00:00:10Z',
+        timing: {
+          runStartedAt: '2024-01-01T00:00:00Z',
+          filesProcessed: 3,
+          filesUploaded: 3,
+          bytesUploaded: 3000,
+          uploadMs: 900,
+          retries: 2,
+          slowestFiles: [{ path: 'big.pdf', durationMs: 500, bytes: 2000 }],
+        },
+      }));
+
+      const result = await toolHandlers['file_search_upload_status']({ operationId: 'op-123' });
+
+      expect(parseResultText(result).throughput).toEqual({
+        elapsedSeconds: 10,
+        filesPerSecond: 0.3,
+        bytesPerSecond: 300,
+        averageUploadMs: 300,
+        retries: 2,
+        slowestFiles: [{ path: 'big.pdf', durationMs: 500, bytes: 2000 }],
+      });
+    });
+
     it('should include failed files list when present', async () => {
       mockGetOperation.mockReturnValue({
         id: 'op-123',
@@ -342,131 +888,1432 @@ describe('MCP Server Tools', () => {
     });
   });
 
-  describe('file_search_query', () => {
-    it('should query store and return text response', async () => {
-      mockQueryStore.mockResolvedValue({
-        outputs: [{ type: 'text', text: 'Here is the answer.' }],
+  describe('file_search_upload_cancel', () => {
+    it('should stop a running upload and mark it cancelled', async () => {
+      mockExistsSync.mockReturnValue(true);
+      mockStatSync.mockReturnValue({ isDirectory: () => true, isFile: () => false });
+      mockCreateOperation.mockReturnValue(uploadOperation('op-run'));
+      mockSelectUploadFiles.mockReturnValueOnce({ files: ['a.md', 'b.md'], skippedByRules: 0 });
+      let signal: AbortSignal | undefined;
+      let finishUpload: () => void = () => {};
+      mockUploadFiles.mockImplementationOnce((...args: unknown[]) => {
+        signal = (args[4] as { signal: AbortSignal }).signal;
+        return new Promise<void>((resolve) => {
+          finishUpload = resolve;
+        });
       });
 
-      const result = await toolHandlers['file_search_query']({
-        query: 'What is the answer?',
-        storeName: 'stores/123',
-      });
+      await toolHandlers['file_search_upload']({ path: '/test/dir', storeName: 'stores/123', smartSync: false });
+      mockGetOperation.mockReturnValue(uploadOperation('op-run', { status: 'in_progress' }));
+      const result = await toolHandlers['file_search_upload_cancel']({ operationId: 'op-run' });
 
-      expect(mockQueryStore).toHaveBeenCalledWith('stores/123', 'What is the answer?', expect.any(String));
-      expect(result).toEqual({
-        content: [{ type: 'text', text: 'Here is the answer.' }],
-      });
+      expect(signal?.aborted).toBe(true);
+      expect((result as McpToolResult).isError).toBeUndefined();
+      finishUpload();
+      await new Promise((resolve) => setImmediate(resolve));
+      expect(mockUpdateUploadOperation).toHaveBeenCalledWith('op-run', { status: 'cancelled', completedAt: expect.any(String) });
+      expect(mockMarkCompleted).not.toHaveBeenCalled();
     });
 
-    it('should return default message if no outputs', async () => {
-      mockQueryStore.mockResolvedValue({ outputs: null });
+    it('should mark a cancelled single-file upload cancelled once the file finishes', async () => {
+      mockExistsSync.mockReturnValue(true);
+      mockStatSync.mockReturnValue({ isDirectory: () => false, isFile: () => true, size: 10 });
+      mockCreateOperation.mockReturnValue(uploadOperation('op-file', { path: '/test/file.txt' }));
+      let finishUpload: () => void = () => {};
+      mockUploadLocalFile.mockImplementationOnce(() => new Promise<void>((resolve) => {
+        finishUpload = resolve;
+      }));
+
+      await toolHandlers['file_search_upload']({ path: '/test/file.txt', storeName: 'stores/123', smartSync: false });
+      mockGetOperation.mockReturnValue(uploadOperation('op-file', { status: 'in_progress' }));
+      const result = await toolHandlers['file_search_upload_cancel']({ operationId: 'op-file' });
+
+      expect((result as McpToolResult).isError).toBeUndefined();
+      finishUpload();
+      await new Promise((resolve) => setImmediate(resolve));
+      expect(mockUpdateUploadOperation).toHaveBeenCalledWith('op-file', { status: 'cancelled', completedAt: expect.any(String) });
+      expect(mockUpdateUploadOperation).toHaveBeenCalledWith('op-file', expect.objectContaining({ processedFiles: ['file.txt'] }));
+      expect(mockMarkCompleted).not.toHaveBeenCalled();
+    });
 
-      const result = await toolHandlers['file_search_query']({
-        query: 'Test query',
-        storeName: 'stores/123',
-      });
+    it('should cancel an interrupted upload directly', async () => {
+      mockGetOperation.mockReturnValue(uploadOperation('op-old', { status: 'interrupted' }));
 
-      expect(result).toEqual({
-        content: [{ type: 'text', text: 'No response generated.' }],
-      });
+      const result = await toolHandlers['file_search_upload_cancel']({ operationId: 'op-old' });
+
+      expect(mockUpdateUploadOperation).toHaveBeenCalledWith('op-old', { status: 'cancelled', completedAt: expect.any(String) });
+      expect(result).toEqual({ content: [{ type: 'text', text: 'Upload op-old cancelled.' }] });
     });
 
-    it('should handle query errors', async () => {
-      mockQueryStore.mockRejectedValue(new Error('Query failed'));
+    it('should refuse to cancel a finished upload', async () => {
+      mockGetOperation.mockReturnValue(uploadOperation('op-done', { status: 'completed' }));
 
-      const result = await toolHandlers['file_search_query']({
-        query: 'Test query',
-        storeName: 'stores/123',
-      });
+      const result = await toolHandlers['file_search_upload_cancel']({ operationId: 'op-done' });
 
       expect(result).toEqual({
         isError: true,
-        content: [{ type: 'text', text: 'Query failed: Query failed' }],
+        content: [{ type: 'text', text: 'Upload op-done is not running (status: completed).' }],
       });
     });
   });
 
-  describe('research_start', () => {
-    it('should start research and save ID to config', async () => {
-      mockStartResearch.mockResolvedValue({
-        id: 'research-123',
-        status: 'in_progress',
-      });
+  describe('file_search_upload_retry', () => {
+    const operations: Record<string, Record<string, unknown>> = {
+      'op-parent': uploadOperation('op-parent', {
+        status: 'completed',
+        failedFiles: 3,
+        failedFilesList: [
+          { file: 'a.md', error: 'Timeout' },
+          { file: 'notes.xyz', error: 'Unsupported file type' },
+          { file: 'gone.md', error: 'Delete failed: not found' },
+        ],
+        retryOperationIds: ['op-retry-1'],
+      }),
+      'op-retry-1': uploadOperation('op-retry-1', {
+        status: 'completed',
+        parentOperationId: 'op-parent',
+        processedFiles: ['a.md'],
+        failedFiles: 1,
+        failedFilesList: [{ file: 'notes.xyz', error: 'Still unsupported' }],
+      }),
+    };
+
+    beforeEach(() => {
+      mockGetOperation.mockImplementation((id: unknown) => operations[id as string]);
+    });
 
-      const result = await toolHandlers['research_start']({
-        input: 'Research topic',
-        model: 'deep-research-pro-preview-12-2025',
+    it('should retry only unrecovered upload failures as a linked operation', async () => {
+      mockExistsSync.mockReturnValue(true);
+      mockStatSync.mockReturnValue({ isDirectory: () => true, isFile: () => false });
+      mockCreateOperation.mockReturnValue(uploadOperation('op-retry-2'));
+      mockUploadFiles.mockResolvedValueOnce({ completed: ['notes.xyz'], skipped: [], failed: [] });
+
+      const result = await toolHandlers['file_search_upload_retry']({ operationId: 'op-parent', mimeTypeFallback: 'text/plain' });
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(mockCreateOperation).toHaveBeenCalledWith('/test/dir', 'stores/123', false);
+      expect(mockUpdateUploadOperation).toHaveBeenCalledWith('op-retry-2', {
+        parentOperationId: 'op-parent',
+        retryFiles: ['notes.xyz'],
+        mimeTypeFallback: 'text/plain',
       });
+      expect(mockUpdateUploadOperation).toHaveBeenCalledWith('op-parent', { retryOperationIds: ['op-retry-1', 'op-retry-2'] });
+      expect(mockSelectUploadFiles).not.toHaveBeenCalled();
+      expect(mockUploadFiles).toHaveBeenCalledWith(
+        expect.anything(),
+        '/test/dir',
+        ['notes.xyz'],
+        'stores/123',
+        expect.objectContaining({ mimeTypeFallback: 'text/plain' })
+      );
+      expect((result as McpToolResult).content[0].text).toContain('Retrying 1 failed files of op-parent. Operation ID: op-retry-2');
+    });
+
+    it('should keep converting text files when retrying a convert upload', async () => {
+      mockExistsSync.mockReturnValue(true);
+      mockStatSync.mockReturnValue({ isDirectory: () => true, isFile: () => false });
+      mockGetOperation.mockReturnValue(uploadOperation('op-convert', {
+        status: 'completed',
+        convert: true,
+        failedFiles: 1,
+        failedFilesList: [{ file: 'Dockerfile', error: 'Timeout' }],
+      }));
+      mockCreateOperation.mockReturnValue(uploadOperation('op-convert-retry'));
+      mockUploadFiles.mockResolvedValueOnce({ completed: ['Dockerfile'], skipped: [], failed: [] });
+
+      await toolHandlers['file_search_upload_retry']({ operationId: 'op-convert' });
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(mockUpdateUploadOperation).toHaveBeenCalledWith('op-convert-retry', expect.objectContaining({ convert: true }));
+      expect(mockUploadFiles).toHaveBeenCalledWith(
+        expect.anything(),
+        '/test/dir',
+        ['Dockerfile'],
+        'stores/123',
+        expect.objectContaining({ convert: true })
+      );
+    });
+
+    it('should retry a mirror as a mirror so superseded copies are deleted', async () => {
+      const plan = {
+        add: [],
+        update: ['changed.md'],
+        unchanged: [],
+        delete: [{ path: 'changed.md', documentName: 'fileSearchStores/s/documents/old', reason: 'superseded' }],
+        unmanaged: 0,
+        skippedByRules: 0,
+      };
+      mockExistsSync.mockReturnValue(true);
+      mockStatSync.mockReturnValue({ isDirectory: () => true, isFile: () => false });
+      mockGetOperation.mockReturnValue(uploadOperation('op-mirror', {
+        status: 'completed',
+        mirror: true,
+        failedFiles: 1,
+        failedFilesList: [{ file: 'changed.md', error: 'Timeout' }],
+      }));
+      mockCreateOperation.mockReturnValue(uploadOperation('op-mirror-retry'));
+      mockMirrorPlan.mockResolvedValueOnce(plan);
+      mockMirrorApply.mockResolvedValueOnce(undefined);
+
+      await toolHandlers['file_search_upload_retry']({ operationId: 'op-mirror', mimeTypeFallback: 'text/plain' });
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(mockUpdateUploadOperation).toHaveBeenCalledWith('op-mirror-retry', expect.objectContaining({
+        retryFiles: ['changed.md'],
+        mirror: true,
+      }));
+      expect(mockRestrictPlan).toHaveBeenCalledWith(plan, new Set(['changed.md']));
+      expect(mockMirrorApply).toHaveBeenCalledWith(plan, '/test/dir', 'stores/123', expect.any(Function), expect.objectContaining({
+        mimeTypeFallback: 'text/plain',
+      }));
+      expect(mockUploadFiles).not.toHaveBeenCalled();
+      expect(mockMarkCompleted).toHaveBeenCalledWith('op-mirror-retry');
+    });
+
+    it('should report when nothing is left to retry', async () => {
+      mockGetOperation.mockReturnValue(uploadOperation('op-clean', { status: 'completed' }));
+
+      const result = await toolHandlers['file_search_upload_retry']({ operationId: 'op-clean' });
 
-      expect(mockStartResearch).toHaveBeenCalledWith({
-        input: 'Research topic',
-        model: 'deep-research-pro-preview-12-2025',
-        fileSearchStoreNames: undefined,
-      });
-      expect(mockAddResearchId).toHaveBeenCalledWith('research-123');
       expect(result).toEqual({
-        content: [{
-          type: 'text',
-          text: 'Research started. ID: research-123\nStatus: in_progress\nUse research_status to check progress.',
-        }],
+        isError: true,
+        content: [{ type: 'text', text: 'Upload op-clean has no failed files to retry.' }],
       });
     });
 
-    it('should include report format in input if provided', async () => {
-      mockStartResearch.mockResolvedValue({
-        id: 'research-456',
-        status: 'in_progress',
-      });
+    it('should show the net outcome of retries in the status', async () => {
+      const result = await toolHandlers['file_search_upload_status']({ operationId: 'op-parent' });
 
-      await toolHandlers['research_start']({
-        input: 'Research topic',
-        report_format: 'Executive Brief',
-        model: 'deep-research-pro-preview-12-2025',
+      const parsed = parseResultText(result);
+      expect(parsed.retryOperationIds).toEqual(['op-retry-1']);
+      expect(parsed.netOutcome).toEqual({
+        recoveredFiles: 1,
+        failedFiles: 2,
+        failedFilesList: [
+          { file: 'notes.xyz', error: 'Still unsupported' },
+          { file: 'gone.md', error: 'Delete failed: not found' },
+        ],
       });
+    });
+  });
 
-      expect(mockStartResearch).toHaveBeenCalledWith({
-        input: '[Report Format: Executive Brief]\n\nResearch topic',
-        model: 'deep-research-pro-preview-12-2025',
-        fileSearchStoreNames: undefined,
-      });
+  describe('file_search_upload_resume', () => {
+    it('should upload only the files not yet processed or failed', async () => {
+      mockExistsSync.mockReturnValue(true);
+      mockStatSync.mockReturnValue({ isDirectory: () => true, isFile: () => false });
+      mockGetOperation.mockReturnValue(uploadOperation('op-int', {
+        status: 'interrupted',
+        include: ['*.md'],
+        completedFiles: 1,
+        failedFiles: 1,
+        failedFilesList: [{ file: 'b.md', error: 'Too large' }],
+        processedFiles: ['a.md'],
+      }));
+      mockSelectUploadFiles.mockReturnValueOnce({ files: ['a.md', 'b.md', 'c.md'], skippedByRules: 0 });
+      mockUploadFiles.mockResolvedValueOnce({ completed: ['c.md'], skipped: [], failed: [] });
+
+      const result = await toolHandlers['file_search_upload_resume']({ operationId: 'op-int' });
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(mockUpdateUploadOperation).toHaveBeenCalledWith('op-int', { status: 'pending', completedAt: undefined, error: undefined });
+      expect(mockSelectUploadFiles).toHaveBeenCalledWith('/test/dir', { include: ['*.md'], exclude: undefined });
+      expect(mockMarkInProgress).toHaveBeenCalledWith('op-int', 3);
+      expect(mockUploadFiles).toHaveBeenCalledWith(expect.anything(), '/test/dir', ['c.md'], 'stores/123', expect.anything());
+      expect(mockMarkCompleted).toHaveBeenCalledWith('op-int');
+      expect((result as McpToolResult).content[0].text).toContain('Already processed: 1 files, 1 failed');
     });
 
-    it('should pass file search store names', async () => {
-      mockStartResearch.mockResolvedValue({
-        id: 'research-789',
-        status: 'in_progress',
-      });
+    it('should not upload a failed single file again', async () => {
+      mockExistsSync.mockReturnValue(true);
+      mockStatSync.mockReturnValue({ isDirectory: () => false, isFile: () => true, size: 10 });
+      mockGetOperation.mockReturnValue(uploadOperation('op-bad', {
+        path: '/test/notes.xyz',
+        status: 'failed',
+        failedFiles: 1,
+        failedFilesList: [{ file: 'notes.xyz', error: 'Unsupported file type: .xyz' }],
+      }));
+
+      const result = await toolHandlers['file_search_upload_resume']({ operationId: 'op-bad' });
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(mockUploadLocalFile).not.toHaveBeenCalled();
+      expect(mockAddFailedFile).not.toHaveBeenCalled();
+      expect(mockMarkCompleted).toHaveBeenCalledWith('op-bad');
+      expect((result as McpToolResult).content[0].text).toContain('0 files, 1 failed (not retried)');
+    });
 
-      await toolHandlers['research_start']({
-        input: 'Research with files',
-        model: 'deep-research-pro-preview-12-2025',
-        fileSearchStoreNames: ['stores/1', 'stores/2'],
-      });
+    it('should refuse to resume a completed upload', async () => {
+      mockGetOperation.mockReturnValue(uploadOperation('op-done', { status: 'completed' }));
 
-      expect(mockStartResearch).toHaveBeenCalledWith({
-        input: 'Research with files',
-        model: 'deep-research-pro-preview-12-2025',
-        fileSearchStoreNames: ['stores/1', 'stores/2'],
-      });
+      const result = await toolHandlers['file_search_upload_resume']({ operationId: 'op-done' });
+
+      expect((result as McpToolResult).isError).toBe(true);
+      expect(mockUploadFiles).not.toHaveBeenCalled();
     });
   });
 
-  describe('research_status', () => {
-    it('should return research status', async () => {
-      const mockInteraction = {
-        id: 'research-123',
+  describe('file_search_upload_list', () => {
+    it('should list operations matching the filter without per-file details', async () => {
+      mockResolveStore.mockResolvedValueOnce('fileSearchStores/docs-1');
+      mockListUploadOperations.mockReturnValue([
+        uploadOperation('op-2', { status: 'completed', processedFiles: ['a.md'] }),
+        uploadOperation('op-1', { status: 'completed' }),
+      ]);
+
+      const result = await toolHandlers['file_search_upload_list']({
         status: 'completed',
-        outputs: [{ type: 'text', text: 'Final report' }],
-      };
-      mockGetStatus.mockResolvedValue(mockInteraction);
+        storeName: 'Docs',
+        since: '2024-01-01',
+        limit: 1,
+      });
+
+      expect(mockListUploadOperations).toHaveBeenCalledWith({
+        status: 'completed',
+        storeName: 'fileSearchStores/docs-1',
+        since: new Date('2024-01-01'),
+      });
+      const parsed = parseResultText(result);
+      expect(parsed.totalMatching).toBe(2);
+      expect(parsed.operations).toEqual([expect.objectContaining({ operationId: 'op-2', status: 'completed' })]);
+      expect(JSON.stringify(parsed)).not.toContain('processedFiles');
+    });
+
+    it('should treat a date-only until as the end of that day', async () => {
+      mockListUploadOperations.mockReturnValue([]);
+
+      await toolHandlers['file_search_upload_list']({ until: '2026-10-19', limit: 50 });
+
+      expect(mockListUploadOperations).toHaveBeenCalledWith({
+        status: undefined,
+        until: new Date('2026-10-19T23:59:59.999Z'),
+      });
+    });
+
+    it('should reject invalid dates', async () => {
+      const result = await toolHandlers['file_search_upload_list']({ until: 'not-a-date', limit: 50 });
+
+      expect(result).toEqual({
+        isError: true,
+        content: [{ type: 'text', text: 'Invalid date for until: not-a-date' }],
+      });
+    });
+  });
+
+  describe('file_search_upload_prune', () => {
+    it('should prune finished operations with the given limits', async () => {
+      mockPruneUploadOperations.mockReturnValueOnce([{ id: 'op-old' }]);
+
+      const result = await toolHandlers['file_search_upload_prune']({ keep: 10, status: 'failed', dryRun: true });
+
+      expect(mockPruneUploadOperations).toHaveBeenCalledWith({
+        keep: 10,
+        olderThanDays: undefined,
+        statuses: ['failed'],
+        dryRun: true,
+      });
+      expect(parseResultText(result)).toEqual({ dryRun: true, removed: 1, operationIds: ['op-old'] });
+    });
+
+    it('should apply retention limits once an upload finishes', async () => {
+      mockExistsSync.mockReturnValue(true);
+      mockStatSync.mockReturnValue({ isDirectory: () => false, isFile: () => true });
+      mockCreateOperation.mockReturnValue(uploadOperation('op-file', { path: '/test/file.md' }));
+      mockUploadLocalFile.mockResolvedValue(undefined);
+
+      await toolHandlers['file_search_upload']({ path: '/test/file.md', storeName: 'stores/123', smartSync: false });
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(mockPruneUploadOperations).toHaveBeenCalledWith({ keep: 100, olderThanDays: 30 });
+    });
+  });
+
+  describe('file_search_query', () => {
+    it('should query store and return text response', async () => {
+      mockInteractionsCreate.mockResolvedValue({
+        outputs: [{ type: 'text', text: 'Here is the answer.' }],
+      });
+
+      const result = await toolHandlers['file_search_query']({
+        query: 'What is the answer?',
+        storeName: 'stores/123',
+      });
+
+      expect(mockInteractionsCreate).toHaveBeenCalledWith({
+        model: expect.any(String),
+        input: 'What is the answer?',
+        tools: [{ type: 'file_search', file_search_store_names: ['stores/123'] }],
+      });
+      expect(result).toEqual({
+        content: [{ type: 'text', text: 'Here is the answer.' }],
+      });
+    });
+
+    it('should return default message if no outputs', async () => {
+      mockInteractionsCreate.mockResolvedValue({ outputs: null });
+
+      const result = await toolHandlers['file_search_query']({
+        query: 'Test query',
+        storeName: 'stores/123',
+      });
+
+      expect(result).toEqual({
+        content: [{ type: 'text', text: 'No response generated.' }],
+      });
+    });
+
+    it('should query the store a display name resolves to', async () => {
+      mockResolveAllStores.mockResolvedValueOnce(['fileSearchStores/docs-1']);
+      mockInteractionsCreate.mockResolvedValue({ outputs: [{ type: 'text', text: 'Answer' }] });
+
+      await toolHandlers['file_search_query']({ query: 'Question', storeName: 'Docs' });
+
+      expect(mockInteractionsCreate).toHaveBeenCalledWith(expect.objectContaining({
+        tools: [{ type: 'file_search', file_search_store_names: ['fileSearchStores/docs-1'] }],
+      }));
+    });
+
+    it('should return the documents that grounded the answer', async () => {
+      mockInteractionsCreate.mockResolvedValue({
+        outputs: [
+          { type: 'file_search_result', result: [{ title: 'guide.md', file_search_store: 'stores/123', text: 'Use v2.' }] },
+          { type: 'text', text: 'Use v2.', annotations: [{ source: 'guide.md', start_index: 0, end_index: 7 }] },
+        ],
+      });
+
+      const text = await toolHandlers['file_search_query']({ query: 'Which version?', storeName: 'stores/123' });
+      const json = await toolHandlers['file_search_query']({ query: 'Which version?', storeName: 'stores/123', outputFormat: 'json' });
+
+      expect(text).toEqual({
+        content: [{
+          type: 'text',
+          text: 'Use v2.\n\n## Sources\n\n[1] guide.md (stores/123): supports 100% of the answer\n   > Use v2.\n',
+        }],
+      });
+      expect(parseResultText(json)).toEqual({
+        answer: 'Use v2.',
+        sources: [{
+          id: 1,
+          document: 'guide.md',
+          fileSearchStore: 'stores/123',
+          cited: true,
+          coverage: 1,
+          citedPassages: ['Use v2.'],
+          excerpts: ['Use v2.'],
+        }],
+      });
+    });
+
+    it('should pass a metadata filter to the file search tool', async () => {
+      mockInteractionsCreate.mockResolvedValue({ outputs: [{ type: 'text', text: 'Answer' }] });
+
+      await toolHandlers['file_search_query']({ query: 'Question', storeName: 'stores/123', metadataFilter: 'version = "2.x"' });
+
+      expect(mockInteractionsCreate).toHaveBeenCalledWith(expect.objectContaining({
+        tools: [{ type: 'file_search', file_search_store_names: ['stores/123'], metadata_filter: 'version = "2.x"' }],
+      }));
+    });
+
+    it('should report ambiguous store names', async () => {
+      mockResolveAllStores.mockRejectedValueOnce(new MockStoreResolutionError('Store name "Docs" is ambiguous.'));
+
+      const result = await toolHandlers['file_search_query']({ query: 'Question', storeName: 'Docs' });
+
+      expect(mockInteractionsCreate).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        isError: true,
+        content: [{ type: 'text', text: 'Store name "Docs" is ambiguous.' }],
+      });
+    });
+
+    it('should handle query errors', async () => {
+      mockInteractionsCreate.mockRejectedValue(new Error('Query failed'));
+
+      const result = await toolHandlers['file_search_query']({
+        query: 'Test query',
+        storeName: 'stores/123',
+      });
+
+      expect(result).toEqual({
+        isError: true,
+        content: [{ type: 'text', text: 'Query failed: Query failed' }],
+      });
+    });
+  
+    it('should ground on several stores with model overrides', async () => {
+      mockInteractionsCreate.mockResolvedValue({ outputs: [{ type: 'text', text: 'Answer' }] });
+
+      await toolHandlers['file_search_query']({
+        query: 'Question',
+        storeName: 'stores/a',
+        storeNames: ['stores/b'],
+        model: 'gemini-2.5-pro',
+        temperature: 0.2,
+        systemInstruction: 'Answer as a release manager.',
+      });
+
+      expect(mockResolveAllStores).toHaveBeenCalledWith(['stores/a', 'stores/b']);
+      expect(mockInteractionsCreate).toHaveBeenCalledWith({
+        model: 'gemini-2.5-pro',
+        input: 'Question',
+        system_instruction: 'Answer as a release manager.',
+        generation_config: { temperature: 0.2 },
+        tools: [{ type: 'file_search', file_search_store_names: ['stores/a', 'stores/b'] }],
+      });
+    });
+
+    it('should require at least one store', async () => {
+      const result = await toolHandlers['file_search_query']({ query: 'Question' });
+
+      expect(result).toEqual({ isError: true, content: [{ type: 'text', text: 'Provide storeName or storeNames.' }] });
+    });
+
+    it('should answer per store side by side when comparing', async () => {
+      mockInteractionsCreate
+        .mockResolvedValueOnce({ outputs: [{ type: 'text', text: 'From A' }] })
+        .mockRejectedValueOnce(new Error('Store unavailable'));
+
+      const text = await toolHandlers['file_search_query']({
+        query: 'Question',
+        storeNames: ['stores/a', 'stores/b'],
+        compareStores: true,
+      });
+
+      expect(mockInteractionsCreate).toHaveBeenCalledTimes(2);
+      expect(mockInteractionsCreate).toHaveBeenCalledWith(expect.objectContaining({
+        tools: [{ type: 'file_search', file_search_store_names: ['stores/b'] }],
+      }));
+      expect(text).toEqual({
+        content: [{ type: 'text', text: '## stores/a\n\nFrom A\n\n## stores/b\n\nQuery failed: Store unavailable\n' }],
+      });
+    });
+
+    it('should return compared answers as JSON', async () => {
+      mockInteractionsCreate
+        .mockResolvedValueOnce({ outputs: [{ type: 'text', text: 'From A' }] })
+        .mockResolvedValueOnce({ outputs: [{ type: 'text', text: 'From B' }] });
+
+      const result = await toolHandlers['file_search_query']({
+        query: 'Question',
+        storeNames: ['stores/a', 'stores/b'],
+        compareStores: true,
+        outputFormat: 'json',
+      });
+
+      expect(parseResultText(result)).toEqual({
+        answers: [
+          { storeName: 'stores/a', answer: 'From A', sources: [] },
+          { storeName: 'stores/b', answer: 'From B', sources: [] },
+        ],
+      });
+    });
+
+    it('should refuse to compare a single store', async () => {
+      const result = await toolHandlers['file_search_query']({ query: 'Question', storeNames: ['stores/a'], compareStores: true });
+
+      expect(result).toEqual({ isError: true, content: [{ type: 'text', text: 'compareStores needs at least two different stores.' }] });
+    });
+  });
+
+  describe('file_search_chat', () => {
+    const chatSession = {
+      id: 'chat-1',
+      storeNames: ['stores/123'],
+      temperature: 0.2,
+      maxTurns: 20,
+      turns: [{ query: 'What is v2?', answer: 'The current release.', askedAt: '2026-01-01T00:00:00.000Z' }],
+      droppedTurns: 3,
+      startedAt: '2026-01-01T00:00:00.000Z',
+    };
+
+    it('should start a session on the resolved stores', async () => {
+      mockResolveAllStores.mockResolvedValueOnce(['fileSearchStores/docs-1', 'fileSearchStores/api-2']);
+
+      const result = await toolHandlers['file_search_chat_start']({ storeNames: ['Docs', 'API'], maxTurns: 5 });
+
+      expect(mockAddChatSession).toHaveBeenCalledWith(expect.objectContaining({
+        id: expect.stringMatching(/^chat-/),
+        storeNames: ['fileSearchStores/docs-1', 'fileSearchStores/api-2'],
+        maxTurns: 5,
+        turns: [],
+      }));
+      const { id } = mockAddChatSession.mock.calls[0][0] as { id: string };
+      expect((result as { content: Array<{ text: string }> }).content[0].text).toContain(`Session ID: ${id}`);
+    });
+
+    it('should require a store to start a session', async () => {
+      const result = await toolHandlers['file_search_chat_start']({});
+
+      expect(result).toEqual({ isError: true, content: [{ type: 'text', text: 'Provide storeName or storeNames.' }] });
+      expect(mockAddChatSession).not.toHaveBeenCalled();
+    });
+
+    it('should send earlier turns along with the new message and record the answer', async () => {
+      mockGetChatSession.mockReturnValue(chatSession);
+      mockInteractionsCreate.mockResolvedValue({ outputs: [{ type: 'text', text: 'Use the migrate command.' }] });
+
+      const result = await toolHandlers['file_search_chat']({ sessionId: 'chat-1', message: 'How do I upgrade to it?', outputFormat: 'json' });
+
+      expect(mockInteractionsCreate).toHaveBeenCalledWith({
+        model: expect.any(String),
+        input: [
+          { role: 'user', content: 'What is v2?' },
+          { role: 'model', content: 'The current release.' },
+          { role: 'user', content: 'How do I upgrade to it?' },
+        ],
+        generation_config: { temperature: 0.2 },
+        tools: [{ type: 'file_search', file_search_store_names: ['stores/123'] }],
+      });
+      expect(mockAppendChatTurn).toHaveBeenCalledWith('chat-1', {
+        query: 'How do I upgrade to it?',
+        answer: 'Use the migrate command.',
+        askedAt: expect.any(String),
+      });
+      expect(JSON.parse((result as { content: Array<{ text: string }> }).content[0].text)).toEqual({
+        sessionId: 'chat-1',
+        turn: 5,
+        answer: 'Use the migrate command.',
+        sources: [],
+      });
+    });
+
+    it('should not record a failed turn', async () => {
+      mockGetChatSession.mockReturnValue(chatSession);
+      mockInteractionsCreate.mockRejectedValue(new Error('Quota exceeded'));
+
+      const result = await toolHandlers['file_search_chat']({ sessionId: 'chat-1', message: 'And then?' });
+
+      expect(result).toEqual({ isError: true, content: [{ type: 'text', text: 'Query failed: Quota exceeded' }] });
+      expect(mockAppendChatTurn).not.toHaveBeenCalled();
+    });
+
+    it('should report unknown sessions', async () => {
+      mockGetChatSession.mockReturnValue(undefined);
+      mockRemoveChatSession.mockReturnValue(false);
+
+      const chat = await toolHandlers['file_search_chat']({ sessionId: 'chat-missing', message: 'Hello' });
+      const end = await toolHandlers['file_search_chat_end']({ sessionId: 'chat-missing' });
+
+      expect(chat).toEqual({ isError: true, content: [{ type: 'text', text: 'Chat session not found: chat-missing' }] });
+      expect(end).toEqual({ isError: true, content: [{ type: 'text', text: 'Chat session not found: chat-missing' }] });
+      expect(mockInteractionsCreate).not.toHaveBeenCalled();
+    });
+
+    it('should end a session', async () => {
+      mockRemoveChatSession.mockReturnValue(true);
+
+      const result = await toolHandlers['file_search_chat_end']({ sessionId: 'chat-1' });
+
+      expect(mockRemoveChatSession).toHaveBeenCalledWith('chat-1');
+      expect(result).toEqual({ content: [{ type: 'text', text: 'Chat session chat-1 ended.' }] });
+    });
+  });
+
+  describe('file_search_list_documents', () => {
+    const documents = [
+      { name: 'fileSearchStores/s/documents/c', displayName: 'c.md', customMetadata: [{ key: 'path', stringValue: 'src/c.md' }] },
+      { name: 'fileSearchStores/s/documents/a', displayName: 'a.md', customMetadata: [{ key: 'path', stringValue: 'docs/a.md' }] },
+      { name: 'fileSearchStores/s/documents/b', displayName: 'b.md', customMetadata: [{ key: 'path', stringValue: 'src/b.md' }] },
+    ];
+
+    it('should filter by path prefix and paginate', async () => {
+      mockListDocuments.mockResolvedValue(documents);
+
+      const first = parseResultText(await toolHandlers['file_search_list_documents']({
+        storeName: 'fileSearchStores/s',
+        pathPrefix: 'src/',
+        pageSize: 1,
+      }));
+
+      expect(mockListDocuments).toHaveBeenCalledWith('fileSearchStores/s');
+      expect(first).toEqual({
+        storeName: 'fileSearchStores/s',
+        documents: [{
+          name: 'fileSearchStores/s/documents/b',
+          displayName: 'b.md',
+          path: 'src/b.md',
+          metadata: { path: 'src/b.md' },
+        }],
+        totalMatching: 2,
+        nextPageToken: '1',
+      });
+
+      const second = parseResultText(await toolHandlers['file_search_list_documents']({
+        storeName: 'fileSearchStores/s',
+        pathPrefix: 'src/',
+        pageSize: 1,
+        pageToken: '1',
+      }));
+
+      expect((second.documents as Array<{ path: string }>).map((d) => d.path)).toEqual(['src/c.md']);
+      expect(second.nextPageToken).toBeUndefined();
+    });
+
+    it('should return an error for an invalid page token', async () => {
+      mockListDocuments.mockResolvedValue(documents);
+
+      const result = await toolHandlers['file_search_list_documents']({
+        storeName: 'fileSearchStores/s',
+        pageSize: 10,
+        pageToken: 'bogus',
+      });
+
+      expect(result).toEqual({
+        isError: true,
+        content: [{ type: 'text', text: 'Failed to list documents: Invalid page token: bogus' }],
+      });
+    });
+  });
+
+  describe('file_search_get_document', () => {
+    it('should return the document with its metadata', async () => {
+      mockGetDocument.mockResolvedValue({
+        name: 'fileSearchStores/s/documents/a',
+        displayName: 'a.md',
+        customMetadata: [{ key: 'hash', stringValue: 'abc' }, { key: 'size', numericValue: 42 }],
+      });
+
+      const result = await toolHandlers['file_search_get_document']({ name: 'fileSearchStores/s/documents/a' });
+
+      expect(parseResultText(result)).toEqual({
+        name: 'fileSearchStores/s/documents/a',
+        displayName: 'a.md',
+        metadata: { hash: 'abc', size: 42 },
+      });
+    });
+  });
+
+  describe('file_search_delete_document', () => {
+    it('should delete the document', async () => {
+      mockDeleteDocument.mockResolvedValue(undefined);
+
+      const result = await toolHandlers['file_search_delete_document']({ name: 'fileSearchStores/s/documents/a' });
+
+      expect(mockDeleteDocument).toHaveBeenCalledWith('fileSearchStores/s/documents/a');
+      expect(result).toEqual({
+        content: [{ type: 'text', text: 'Deleted document: fileSearchStores/s/documents/a' }],
+      });
+    });
+
+    it('should report delete failures', async () => {
+      mockDeleteDocument.mockRejectedValue(new Error('Not found'));
+
+      const result = await toolHandlers['file_search_delete_document']({ name: 'missing' });
+
+      expect(result).toEqual({
+        isError: true,
+        content: [{ type: 'text', text: 'Failed to delete document: Not found' }],
+      });
+    });
+  });
+
+  describe('research_list_templates', () => {
+    it('should list the built-in templates', async () => {
+      const result = await toolHandlers['research_list_templates']({});
+
+      const listing = JSON.parse((result as { content: Array<{ text: string }> }).content[0].text);
+      expect(listing.directory).toBe('report-templates');
+      expect(listing.templates.map((template: { name: string }) => template.name)).toEqual([
+        'Executive Brief',
+        'Technical Deep Dive',
+        'Market Analysis',
+        'Comprehensive Research Report',
+      ]);
+      expect(listing.templates[0]).toEqual(expect.objectContaining({ source: 'built-in', length: '600-1,000 words' }));
+      expect(listing.invalidFiles).toEqual([]);
+    });
+
+    it('should list invalid workspace templates instead of failing', async () => {
+      mockExistsSync.mockReturnValue(true);
+      mockReaddirSync.mockReturnValueOnce(['broken.json']);
+      mockReadFileSync.mockReturnValueOnce('{');
+
+      const result = await toolHandlers['research_list_templates']({});
+
+      const listing = JSON.parse((result as { content: Array<{ text: string }> }).content[0].text);
+      expect(listing.templates).toHaveLength(4);
+      expect(listing.invalidFiles).toEqual([
+        { path: 'report-templates/broken.json', error: expect.stringContaining('Could not read report-templates/broken.json') },
+      ]);
+    });
+  });
+
+  describe('research_plan', () => {
+    const plan = {
+      objective: 'Assess battery supply',
+      subQuestions: ['Who makes cells?'],
+      sourceTypes: ['Industry reports'],
+      sections: ['Summary'],
+      constraints: [],
+    };
+
+    it('should return a proposed plan for review', async () => {
+      mockInteractionsCreate.mockResolvedValue({ outputs: [{ type: 'text', text: JSON.stringify(plan) }] });
+
+      const result = await toolHandlers['research_plan']({ topic: 'Battery supply', report_format: 'Executive Brief' });
+
+      expect(mockInteractionsCreate).toHaveBeenCalledWith(expect.objectContaining({
+        input: expect.stringMatching(/Topic: Battery supply[\s\S]*\[Report Format: Executive Brief\]/),
+        response_mime_type: 'application/json',
+        response_format: expect.objectContaining({ type: 'object' }),
+      }));
+      const text = (result as { content: Array<{ text: string }> }).content[0].text;
+      expect(text).toContain('## Sub-questions\n\n1. Who makes cells?');
+      expect(text).toContain(JSON.stringify(plan, null, 2));
+      expect(mockStartResearch).not.toHaveBeenCalled();
+    });
+
+    it('should report responses that are not a plan', async () => {
+      mockInteractionsCreate.mockResolvedValue({ outputs: [{ type: 'text', text: 'I cannot help with that.' }] });
+
+      const result = await toolHandlers['research_plan']({ topic: 'Battery supply' });
+
+      expect(result).toEqual({ isError: true, content: [{ type: 'text', text: 'The model did not return a JSON research plan' }] });
+    });
+  });
+
+  describe('research_start', () => {
+    it('should start research and record the session', async () => {
+      mockStartResearch.mockResolvedValue({
+        id: 'research-123',
+        status: 'in_progress',
+        created: '2024-01-01T00:00:00Z',
+      });
+
+      const result = await toolHandlers['research_start']({
+        input: 'Research topic',
+        model: 'deep-research-pro-preview-12-2025',
+      });
+
+      expect(mockStartResearch).toHaveBeenCalledWith({
+        input: 'Research topic',
+        model: 'deep-research-pro-preview-12-2025',
+        fileSearchStoreNames: undefined,
+      });
+      expect(mockAddResearchSession).toHaveBeenCalledWith({
+        id: 'research-123',
+        input: 'Research topic',
+        reportFormat: undefined,
+        model: 'deep-research-pro-preview-12-2025',
+        fileSearchStoreNames: [],
+        status: 'in_progress',
+        tags: [],
+        startedAt: '2024-01-01T00:00:00Z',
+      });
+      expect(result).toEqual({
+        content: [{
+          type: 'text',
+          text: 'Research started. ID: research-123\nStatus: in_progress\nUse research_status to check progress.',
+        }],
+      });
+    });
+
+    it('should start research from an approved plan', async () => {
+      mockStartResearch.mockResolvedValue({ id: 'research-123', status: 'in_progress' });
+
+      await toolHandlers['research_start']({
+        plan: {
+          objective: 'Assess battery supply',
+          subQuestions: ['Who makes cells?'],
+          sourceTypes: [],
+          sections: ['Summary'],
+          constraints: [],
+        },
+        input: 'Focus on Europe',
+        model: 'deep-research-pro-preview-12-2025',
+      });
+
+      const input = '# Research Plan\n\n## Objective\n\nAssess battery supply\n\n## Sub-questions\n\n1. Who makes cells?' +
+        '\n\n## Report Sections\n\n1. Summary\n\n## Additional Instructions\n\nFocus on Europe';
+      expect(mockStartResearch).toHaveBeenCalledWith(expect.objectContaining({ input }));
+      expect(mockAddResearchSession).toHaveBeenCalledWith(expect.objectContaining({ input }));
+    });
+
+    it('should require input or a plan', async () => {
+      const result = await toolHandlers['research_start']({ model: 'deep-research-pro-preview-12-2025' });
+
+      expect(result).toEqual({ isError: true, content: [{ type: 'text', text: 'Provide input or plan.' }] });
+      expect(mockStartResearch).not.toHaveBeenCalled();
+    });
+
+    it('should resolve grounding store names', async () => {
+      mockStartResearch.mockResolvedValue({ id: 'research-123', status: 'in_progress' });
+      mockResolveAllStores.mockResolvedValueOnce(['fileSearchStores/docs-1']);
+
+      await toolHandlers['research_start']({
+        input: 'Research topic',
+        model: 'deep-research-pro-preview-12-2025',
+        fileSearchStoreNames: ['Docs'],
+      });
+
+      expect(mockResolveAllStores).toHaveBeenCalledWith(['Docs']);
+      expect(mockStartResearch).toHaveBeenCalledWith(expect.objectContaining({
+        fileSearchStoreNames: ['fileSearchStores/docs-1'],
+      }));
+      expect(mockAddResearchSession).toHaveBeenCalledWith(expect.objectContaining({
+        fileSearchStoreNames: ['fileSearchStores/docs-1'],
+      }));
+    });
+
+    it('should prepend the report template to the input', async () => {
+      mockStartResearch.mockResolvedValue({
+        id: 'research-456',
+        status: 'in_progress',
+      });
+
+      await toolHandlers['research_start']({
+        input: 'Research topic',
+        report_format: 'Executive Brief',
+        model: 'deep-research-pro-preview-12-2025',
+      });
+
+      expect(mockStartResearch).toHaveBeenCalledWith({
+        input: '[Report Format: Executive Brief]\nSections:\n1. Executive Summary\n2. Key Findings (bulleted)\n3. Strategic Recommendations' +
+          '\nLength: 600-1,000 words\nCitations: Cite a source for every key finding\n\nResearch topic',
+        model: 'deep-research-pro-preview-12-2025',
+        fileSearchStoreNames: undefined,
+      });
+    });
+
+    it('should use templates from the workspace templates directory', async () => {
+      mockStartResearch.mockResolvedValue({ id: 'research-456', status: 'in_progress' });
+      mockExistsSync.mockReturnValue(true);
+      mockReaddirSync.mockReturnValueOnce(['board-update.json']);
+      mockReadFileSync.mockReturnValueOnce(JSON.stringify({ sections: ['Headline', 'Risks'], length: 'One page' }));
+
+      await toolHandlers['research_start']({
+        input: 'Research topic',
+        report_format: 'Board-Update',
+        model: 'deep-research-pro-preview-12-2025',
+      });
+
+      expect(mockReaddirSync).toHaveBeenCalledWith('report-templates');
+      expect(mockStartResearch).toHaveBeenCalledWith(expect.objectContaining({
+        input: '[Report Format: board-update]\nSections:\n1. Headline\n2. Risks\nLength: One page\n\nResearch topic',
+      }));
+      expect(mockAddResearchSession).toHaveBeenCalledWith(expect.objectContaining({ reportFormat: 'board-update' }));
+    });
+
+    it('should reject unknown report formats', async () => {
+      const result = await toolHandlers['research_start']({
+        input: 'Research topic',
+        report_format: 'Haiku',
+        model: 'deep-research-pro-preview-12-2025',
+      });
+
+      expect(result).toEqual({
+        isError: true,
+        content: [{
+          type: 'text',
+          text: 'Unknown report format: Haiku. Available formats: Executive Brief, Technical Deep Dive, Market Analysis, Comprehensive Research Report.',
+        }],
+      });
+      expect(mockStartResearch).not.toHaveBeenCalled();
+    });
+
+    it('should pass file search store names', async () => {
+      mockStartResearch.mockResolvedValue({
+        id: 'research-789',
+        status: 'in_progress',
+      });
+
+      await toolHandlers['research_start']({
+        input: 'Research with files',
+        model: 'deep-research-pro-preview-12-2025',
+        fileSearchStoreNames: ['stores/1', 'stores/2'],
+      });
+
+      expect(mockStartResearch).toHaveBeenCalledWith({
+        input: 'Research with files',
+        model: 'deep-research-pro-preview-12-2025',
+        fileSearchStoreNames: ['stores/1', 'stores/2'],
+      });
+    });
+
+    it('should record report format, stores and tags on the session', async () => {
+      mockStartResearch.mockResolvedValue({ id: 'research-999', status: 'in_progress' });
+
+      await toolHandlers['research_start']({
+        input: 'Research topic',
+        report_format: 'Executive Brief',
+        model: 'deep-research-pro-preview-12-2025',
+        fileSearchStoreNames: ['stores/1'],
+        tags: ['q3'],
+      });
+
+      expect(mockAddResearchSession).toHaveBeenCalledWith(expect.objectContaining({
+        id: 'research-999',
+        input: 'Research topic',
+        reportFormat: 'Executive Brief',
+        fileSearchStoreNames: ['stores/1'],
+        tags: ['q3'],
+        startedAt: expect.any(String),
+      }));
+    });
+  });
+
+  describe('research_status', () => {
+    it('should return research status', async () => {
+      const mockInteraction = {
+        id: 'research-123',
+        status: 'completed',
+        outputs: [{ type: 'text', text: 'Final report' }],
+      };
+      mockGetStatus.mockResolvedValue(mockInteraction);
 
       const result = await toolHandlers['research_status']({ id: 'research-123' });
 
-      expect(mockGetStatus).toHaveBeenCalledWith('research-123');
-      const parsed = parseResultText(result);
-      expect(parsed.id).toBe('research-123');
-      expect(parsed.status).toBe('completed');
+      expect(mockGetStatus).toHaveBeenCalledWith('research-123');
+      const parsed = parseResultText(result);
+      expect(parsed.id).toBe('research-123');
+      expect(parsed.status).toBe('completed');
+    });
+
+    it('should serve terminal interactions from the cache', async () => {
+      mockCacheGet.mockReturnValueOnce({ id: 'research-123', status: 'completed', outputs: [] });
+
+      const result = await toolHandlers['research_status']({ id: 'research-123' });
+
+      expect(mockCacheGet).toHaveBeenCalledWith('research-123');
+      expect(mockGetStatus).not.toHaveBeenCalled();
+      expect(parseResultText(result).status).toBe('completed');
+    });
+
+    it('should bypass the cache and store the fresh copy when refresh is set', async () => {
+      const interaction = { id: 'research-123', status: 'completed', outputs: [] };
+      mockGetStatus.mockResolvedValue(interaction);
+
+      await toolHandlers['research_status']({ id: 'research-123', refresh: true });
+
+      expect(mockCacheGet).not.toHaveBeenCalled();
+      expect(mockGetStatus).toHaveBeenCalledWith('research-123');
+      expect(mockCacheSet).toHaveBeenCalledWith(interaction);
+    });
+
+    it('should refresh the recorded session status', async () => {
+      mockGetStatus.mockResolvedValue({
+        id: 'research-123',
+        status: 'completed',
+        updated: '2024-01-01T00:20:00Z',
+      });
+
+      await toolHandlers['research_status']({ id: 'research-123' });
+
+      expect(mockUpdateResearchSession).toHaveBeenCalledWith('research-123', {
+        status: 'completed',
+        updatedAt: expect.any(String),
+        completedAt: '2024-01-01T00:20:00Z',
+      });
+    });
+
+    it('should archive the report the first time completion is observed', async () => {
+      const session = {
+        id: 'research-123',
+        input: 'Quantum error correction',
+        model: 'deep-research-pro-preview-12-2025',
+        fileSearchStoreNames: [],
+        status: 'in_progress',
+        tags: [],
+        startedAt: '2024-01-01T00:00:00Z',
+      };
+      mockGetStatus.mockResolvedValue({
+        id: 'research-123',
+        status: 'completed',
+        updated: '2024-01-01T00:20:00Z',
+        outputs: [{ type: 'text', text: '# Error Correction\n\nFindings' }],
+      });
+      mockGetResearchSession.mockReturnValueOnce(session);
+      mockGetReportsDirectory.mockReturnValue('/archive');
+      mockGenerateMarkdown.mockReturnValue('# Error Correction\n\nFindings');
+      const archivedReport = { path: '/archive/2024-01-01-error-correction-earch123.md', title: 'Error Correction' };
+      mockListResearchSessions.mockReturnValue([{ ...session, archivedReport }]);
+
+      await toolHandlers['research_status']({ id: 'research-123' });
+
+      expect(mockWriteFileAtomic).toHaveBeenCalledWith(archivedReport.path, '# Error Correction\n\nFindings');
+      expect(mockUpdateResearchSession).toHaveBeenCalledWith('research-123', { archivedReport });
+      expect(mockWriteFileAtomic).toHaveBeenCalledWith('/archive/INDEX.md', expect.stringContaining('Quantum error correction'));
+    });
+
+    it('should not archive a report twice', async () => {
+      mockGetStatus.mockResolvedValue({
+        id: 'research-123',
+        status: 'completed',
+        outputs: [{ type: 'text', text: 'Report' }],
+      });
+      mockGetResearchSession.mockReturnValueOnce({
+        id: 'research-123',
+        input: 'Query',
+        archivedReport: { path: '/archive/report.md', title: 'Report' },
+      });
+
+      await toolHandlers['research_status']({ id: 'research-123' });
+
+      expect(mockWriteFileAtomic).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('research_followup', () => {
+    it('should continue from the previous interaction and record the link', async () => {
+      mockGetStatus.mockResolvedValue({ id: 'research-1', status: 'completed' });
+      mockGetResearchSession.mockReturnValue({
+        id: 'research-1',
+        model: 'deep-research-pro-preview-12-2025',
+        fileSearchStoreNames: ['stores/1'],
+        tags: ['energy'],
+      });
+      mockInteractionsCreate.mockResolvedValue({ id: 'research-2', status: 'in_progress' });
+
+      const result = await toolHandlers['research_followup']({
+        id: 'research-1',
+        input: 'Expand section 3',
+      });
+
+      expect(mockInteractionsCreate).toHaveBeenCalledWith({
+        agent: 'deep-research-pro-preview-12-2025',
+        input: 'Expand section 3',
+        previous_interaction_id: 'research-1',
+        background: true,
+        tools: [{ type: 'file_search', file_search_store_names: ['stores/1'] }],
+      });
+      expect(mockAddResearchSession).toHaveBeenCalledWith(expect.objectContaining({
+        id: 'research-2',
+        input: 'Expand section 3',
+        parentId: 'research-1',
+        tags: ['energy'],
+      }));
+      expect(result).toEqual({
+        content: [{
+          type: 'text',
+          text: 'Follow-up started. ID: research-2 (continues research-1)\nStatus: in_progress\nUse research_status to check progress.',
+        }],
+      });
+    });
+
+    it('should reject follow-ups on incomplete interactions', async () => {
+      mockGetStatus.mockResolvedValue({ id: 'research-1', status: 'in_progress' });
+
+      const result = await toolHandlers['research_followup']({ id: 'research-1', input: 'More' });
+
+      expect(mockInteractionsCreate).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        isError: true,
+        content: [{ type: 'text', text: 'Interaction research-1 is not completed. Current status: in_progress' }],
+      });
+    });
+  });
+
+  describe('research_thread', () => {
+    it('should return the thread and direct follow-ups', async () => {
+      mockGetResearchThread.mockReturnValue([{ id: 'root' }, { id: 'child', parentId: 'root' }]);
+      mockListResearchSessions.mockReturnValue([
+        { id: 'grandchild', parentId: 'child' },
+        { id: 'child', parentId: 'root' },
+      ]);
+
+      const result = await toolHandlers['research_thread']({ id: 'child' });
+
+      expect(parseResultText(result)).toEqual({
+        thread: [{ id: 'root' }, { id: 'child', parentId: 'root' }],
+        followUps: ['grandchild'],
+      });
+    });
+
+    it('should return error for unknown session', async () => {
+      mockGetResearchThread.mockReturnValue([]);
+
+      const result = await toolHandlers['research_thread']({ id: 'missing' });
+
+      expect(result).toEqual({
+        isError: true,
+        content: [{ type: 'text', text: 'Research session not found: missing' }],
+      });
+    });
+  });
+
+  describe('research_cancel', () => {
+    it('should cancel research and refresh the session', async () => {
+      mockCancel.mockResolvedValue({ id: 'research-123', status: 'cancelled' });
+
+      const result = await toolHandlers['research_cancel']({ id: 'research-123' });
+
+      expect(mockCancel).toHaveBeenCalledWith('research-123');
+      expect(mockUpdateResearchSession).toHaveBeenCalledWith('research-123', expect.objectContaining({
+        status: 'cancelled',
+        completedAt: expect.any(String),
+      }));
+      expect(result).toEqual({
+        content: [{ type: 'text', text: 'Research research-123 cancelled. Status: cancelled' }],
+      });
+    });
+
+    it('should handle cancel errors', async () => {
+      mockCancel.mockRejectedValue(new Error('Interaction already completed'));
+
+      const result = await toolHandlers['research_cancel']({ id: 'research-123' });
+
+      expect(result).toEqual({
+        isError: true,
+        content: [{ type: 'text', text: 'Cancel failed: Interaction already completed' }],
+      });
+    });
+  });
+
+  describe('research_delete', () => {
+    it('should delete research and remove the session', async () => {
+      mockDelete.mockResolvedValue(undefined);
+
+      const result = await toolHandlers['research_delete']({ id: 'research-123' });
+
+      expect(mockDelete).toHaveBeenCalledWith('research-123');
+      expect(mockRemoveResearchSession).toHaveBeenCalledWith('research-123');
+      expect(mockCacheDelete).toHaveBeenCalledWith('research-123');
+      expect(result).toEqual({
+        content: [{ type: 'text', text: 'Deleted research: research-123' }],
+      });
+    });
+
+    it('should delete the archived report and drop it from the index', async () => {
+      mockDelete.mockResolvedValue(undefined);
+      mockGetReportsDirectory.mockReturnValueOnce('/archive');
+      mockGetResearchSession.mockReturnValueOnce({
+        id: 'research-123',
+        input: 'Quantum error correction',
+        fileSearchStoreNames: [],
+        startedAt: '2024-01-01T00:00:00Z',
+        archivedReport: { path: '/archive/2024-01-01-report-earch123.md', title: 'Report' },
+      });
+      mockListResearchSessions.mockReturnValueOnce([]);
+
+      await toolHandlers['research_delete']({ id: 'research-123' });
+
+      expect(mockRmSync).toHaveBeenCalledWith('/archive/2024-01-01-report-earch123.md', { force: true });
+      expect(mockWriteFileAtomic).toHaveBeenCalledWith('/archive/INDEX.md', expect.not.stringContaining('Quantum error correction'));
+    });
+
+    it('should keep the session when delete fails', async () => {
+      mockDelete.mockRejectedValue(new Error('Not found'));
+
+      const result = await toolHandlers['research_delete']({ id: 'research-123' });
+
+      expect(mockRemoveResearchSession).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        isError: true,
+        content: [{ type: 'text', text: 'Delete failed: Not found' }],
+      });
+    });
+  });
+
+  describe('research_perform', () => {
+    it('should return the report when research completes', async () => {
+      mockStartResearch.mockResolvedValue({ id: 'research-1', status: 'in_progress' });
+      mockGetStatus.mockResolvedValue({
+        id: 'research-1',
+        status: 'completed',
+        outputs: [{ type: 'text', text: 'Report content' }],
+      });
+      mockGenerateMarkdown.mockReturnValue('# Report');
+
+      const result = await toolHandlers['research_perform']({
+        input: 'Research topic',
+        model: 'deep-research-pro-preview-12-2025',
+        timeoutSeconds: 60,
+      });
+
+      expect(result).toEqual({ content: [{ type: 'text', text: '# Report' }] });
+    });
+
+    it('should send progress notifications when a progress token is provided', async () => {
+      mockStartResearch.mockResolvedValue({ id: 'research-1', status: 'in_progress' });
+      mockGetStatus.mockResolvedValue({
+        id: 'research-1',
+        status: 'completed',
+        outputs: [{ type: 'text', text: 'Report content' }],
+      });
+      mockGenerateMarkdown.mockReturnValue('# Report');
+
+      await toolHandlers['research_perform'](
+        { input: 'Research topic', model: 'deep-research-pro-preview-12-2025', timeoutSeconds: 60 },
+        { _meta: { progressToken: 'token-1' }, sendNotification: mockSendNotification }
+      );
+
+      expect(mockSendNotification).toHaveBeenCalledWith({
+        method: 'notifications/progress',
+        params: expect.objectContaining({
+          progressToken: 'token-1',
+          total: 60,
+          message: expect.stringContaining('Research completed'),
+        }),
+      });
+    });
+
+    it('should retry transient status errors instead of failing', async () => {
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      mockGetPollingOverrides.mockReturnValue({ minIntervalMs: 0, maxIntervalMs: 0 });
+      mockStartResearch.mockResolvedValue({ id: 'research-1', status: 'in_progress' });
+      mockGetStatus
+        .mockRejectedValueOnce(Object.assign(new Error('Too many requests'), { status: 429 }))
+        .mockResolvedValue({ id: 'research-1', status: 'completed', outputs: [{ type: 'text', text: 'Done' }] });
+      mockGenerateMarkdown.mockReturnValue('# Report');
+
+      const result = await toolHandlers['research_perform']({
+        input: 'Research topic',
+        model: 'deep-research-pro-preview-12-2025',
+        timeoutSeconds: 60,
+      });
+
+      expect(result).toEqual({ content: [{ type: 'text', text: '# Report' }] });
+      expect(mockGetStatus).toHaveBeenCalledTimes(2);
+      errorSpy.mockRestore();
+    });
+
+    it('should report fatal status errors with the research ID', async () => {
+      mockStartResearch.mockResolvedValue({ id: 'research-1', status: 'in_progress' });
+      mockGetStatus.mockRejectedValue(Object.assign(new Error('Permission denied'), { status: 403 }));
+
+      const result = await toolHandlers['research_perform']({
+        input: 'Research topic',
+        model: 'deep-research-pro-preview-12-2025',
+        timeoutSeconds: 60,
+      });
+
+      expect(result).toEqual({
+        isError: true,
+        content: [{
+          type: 'text',
+          text: "Failed to check research status: Permission denied. The task may still be running in the background (ID: research-1). Use 'research_status' to check later.",
+        }],
+      });
+    });
+
+    it('should stop polling when the interaction is cancelled remotely', async () => {
+      mockStartResearch.mockResolvedValue({ id: 'research-1', status: 'in_progress' });
+      mockGetStatus.mockResolvedValue({ id: 'research-1', status: 'cancelled' });
+
+      const result = await toolHandlers['research_perform']({
+        input: 'Research topic',
+        model: 'deep-research-pro-preview-12-2025',
+        timeoutSeconds: 60,
+      });
+
+      expect(result).toEqual({
+        isError: true,
+        content: [{ type: 'text', text: 'Research research-1 was cancelled before completion.' }],
+      });
+    });
+
+    it('should abort the wait when research_cancel is called', async () => {
+      mockStartResearch.mockResolvedValue({ id: 'research-1', status: 'in_progress' });
+      mockGetStatus.mockResolvedValue({ id: 'research-1', status: 'in_progress' });
+      mockCancel.mockResolvedValue({ id: 'research-1', status: 'cancelled' });
+      // Keep the loop waiting between polls so only the cancellation can end it
+      mockGetPollingOverrides.mockReturnValue({ minIntervalMs: 60000, maxIntervalMs: 60000 });
+
+      const performPromise = toolHandlers['research_perform']({
+        input: 'Research topic',
+        model: 'deep-research-pro-preview-12-2025',
+        timeoutSeconds: 60,
+      });
+      // Let the first poll complete so the loop is waiting
+      await new Promise((resolve) => setImmediate(resolve));
+      await toolHandlers['research_cancel']({ id: 'research-1' });
+
+      expect(await performPromise).toEqual({
+        isError: true,
+        content: [{ type: 'text', text: 'Research research-1 was cancelled before completion.' }],
+      });
+      expect(mockGetStatus).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('research_list', () => {
+    it('should list sessions with parsed date filters', async () => {
+      mockListResearchSessions.mockReturnValue([{ id: 'research-1', status: 'completed' }]);
+
+      const result = await toolHandlers['research_list']({ tag: 'energy', since: '2024-01-01' });
+
+      expect(mockListResearchSessions).toHaveBeenCalledWith({
+        status: undefined,
+        tag: 'energy',
+        since: new Date('2024-01-01'),
+      });
+      expect(JSON.parse((result as McpToolResult).content[0].text)).toEqual([
+        { id: 'research-1', status: 'completed' },
+      ]);
+    });
+
+    it('should treat a date-only until as the end of that day', async () => {
+      mockListResearchSessions.mockReturnValue([]);
+
+      await toolHandlers['research_list']({ until: '2026-10-19' });
+      await toolHandlers['research_list']({ until: '2026-10-19T12:00:00Z' });
+
+      expect(mockListResearchSessions).toHaveBeenNthCalledWith(1, expect.objectContaining({
+        until: new Date('2026-10-19T23:59:59.999Z'),
+      }));
+      expect(mockListResearchSessions).toHaveBeenNthCalledWith(2, expect.objectContaining({
+        until: new Date('2026-10-19T12:00:00Z'),
+      }));
+    });
+
+    it('should reject invalid dates', async () => {
+      const result = await toolHandlers['research_list']({ until: 'not-a-date' });
+
+      expect(result).toEqual({
+        isError: true,
+        content: [{ type: 'text', text: 'Invalid date for until: not-a-date' }],
+      });
+      expect(mockListResearchSessions).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('research_tag', () => {
+    it('should add and remove tags', async () => {
+      mockGetResearchSession.mockReturnValue({ id: 'research-1', tags: ['draft', 'energy'] });
+
+      const result = await toolHandlers['research_tag']({ id: 'research-1', add: ['final'], remove: ['draft'] });
+
+      expect(mockUpdateResearchSession).toHaveBeenCalledWith('research-1', { tags: ['energy', 'final'] });
+      expect(result).toEqual({
+        content: [{ type: 'text', text: 'Tags for research-1: energy, final' }],
+      });
+    });
+
+    it('should return error for unknown session', async () => {
+      mockGetResearchSession.mockReturnValue(undefined);
+
+      const result = await toolHandlers['research_tag']({ id: 'missing', add: [], remove: [] });
+
+      expect(result).toEqual({
+        isError: true,
+        content: [{ type: 'text', text: 'Research session not found: missing' }],
+      });
+    });
+  });
+
+  describe('research_get_sources', () => {
+    it('should return the cited sources', async () => {
+      mockGetStatus.mockResolvedValue({
+        id: 'research-123',
+        status: 'completed',
+        outputs: [
+          { type: 'google_search_result', result: [{ url: 'https://example.com/a', title: 'Example A' }] },
+          { type: 'text', text: 'Claim', annotations: [{ source: 'https://example.com/a' }] },
+        ],
+      });
+
+      const result = await toolHandlers['research_get_sources']({ id: 'research-123', includeUncited: false });
+
+      expect(JSON.parse((result as McpToolResult).content[0].text)).toEqual([
+        { id: 1, source: 'https://example.com/a', title: 'Example A', type: 'web', cited: true },
+      ]);
+    });
+
+    it('should return error if research not completed', async () => {
+      mockGetStatus.mockResolvedValue({ id: 'research-123', status: 'in_progress' });
+
+      const result = await toolHandlers['research_get_sources']({ id: 'research-123', includeUncited: false });
+
+      expect((result as McpToolResult).isError).toBe(true);
     });
   });
 
@@ -523,10 +2370,115 @@ describe('MCP Server Tools', () => {
       });
 
       expect(mockGenerateMarkdown).toHaveBeenCalledWith([{ type: 'text', text: 'Report content' }]);
-      expect(mockWriteFileSync).toHaveBeenCalledWith('/output/report.md', '# Generated Report\n\nContent here.');
+      expect(mockWriteFileAtomic).toHaveBeenCalledWith('/output/report.md', '# Generated Report\n\nContent here.');
       expect(result).toEqual({
         content: [{ type: 'text', text: 'Report saved to /output/report.md' }],
       });
     });
+
+    it('should choose the export format from the file extension', async () => {
+      mockGetStatus.mockResolvedValue({
+        id: 'research-123',
+        status: 'completed',
+        outputs: [{ type: 'text', text: '# Findings\n\nContent' }],
+      });
+
+      await toolHandlers['research_save_report']({
+        id: 'research-123',
+        filePath: '/output/report.html',
+      });
+
+      expect(mockGenerateMarkdown).not.toHaveBeenCalled();
+      expect(mockWriteFileAtomic).toHaveBeenCalledWith(
+        '/output/report.html',
+        expect.stringContaining('<h1>Findings</h1>')
+      );
+    });
+
+    it('should write a BibTeX file alongside the report', async () => {
+      mockGetStatus.mockResolvedValue({
+        id: 'research-123',
+        status: 'completed',
+        outputs: [{ type: 'text', text: 'Claim', annotations: [{ source: 'https://example.com' }] }],
+      });
+      mockGenerateMarkdown.mockReturnValue('# Report');
+
+      const result = await toolHandlers['research_save_report']({
+        id: 'research-123',
+        filePath: '/output/report.md',
+        bibliography: 'bibtex',
+      });
+
+      expect(mockWriteFileAtomic).toHaveBeenCalledWith('/output/report.md', '# Report');
+      expect(mockWriteFileAtomic).toHaveBeenCalledWith('/output/report.bib', expect.stringContaining('@misc{source1,'));
+      expect(result).toEqual({
+        content: [{ type: 'text', text: 'Report saved to /output/report.md\nBibliography saved to /output/report.bib' }],
+      });
+    });
+
+    it('should confine output paths and honour the overwrite flag', async () => {
+      mockGetStatus.mockResolvedValue({
+        id: 'research-123',
+        status: 'completed',
+        outputs: [{ type: 'text', text: 'Report content' }],
+      });
+      mockGenerateMarkdown.mockReturnValue('# Report');
+      mockGetOutputDirectories.mockReturnValue(['/shared/reports']);
+      mockPrepareOutputPath.mockReturnValueOnce('/workspace/report-1.md');
+
+      const result = await toolHandlers['research_save_report']({
+        id: 'research-123',
+        filePath: 'report.md',
+        overwrite: false,
+      });
+
+      expect(mockPrepareOutputPath).toHaveBeenCalledWith('report.md', {
+        overwrite: false,
+        allowedDirectories: ['/shared/reports'],
+      });
+      expect(mockWriteFileAtomic).toHaveBeenCalledWith('/workspace/report-1.md', '# Report');
+      expect(result).toEqual({
+        content: [{ type: 'text', text: 'Report saved to /workspace/report-1.md' }],
+      });
+    });
+
+    it('should return an error for rejected output paths', async () => {
+      mockGetStatus.mockResolvedValue({
+        id: 'research-123',
+        status: 'completed',
+        outputs: [{ type: 'text', text: 'Report content' }],
+      });
+      mockPrepareOutputPath.mockImplementationOnce(() => {
+        throw new MockOutputPathError('Refusing to write outside the workspace: /etc/passwd');
+      });
+
+      const result = await toolHandlers['research_save_report']({
+        id: 'research-123',
+        filePath: '/etc/passwd',
+      });
+
+      expect(mockWriteFileAtomic).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        isError: true,
+        content: [{ type: 'text', text: 'Refusing to write outside the workspace: /etc/passwd' }],
+      });
+    });
+
+    it('should prefer an explicit format over the file extension', async () => {
+      mockGetStatus.mockResolvedValue({
+        id: 'research-123',
+        status: 'completed',
+        outputs: [{ type: 'text', text: '# Findings\n\nContent' }],
+      });
+
+      await toolHandlers['research_save_report']({
+        id: 'research-123',
+        filePath: '/output/report.md',
+        format: 'json',
+      });
+
+      const written = JSON.parse(mockWriteFileAtomic.mock.calls[0][1] as string);
+      expect(written.title).toBe('Findings');
+    });
   });
 });
@@ -7,13 +7,43 @@ import {
   FileUploader,
   UploadOperationManager,
   Interaction,
-  TextContent,
   ResearchManager,
   ReportGenerator,
+  isTerminalStatus,
 } from '@allenhutchison/gemini-utils';
-import { WorkspaceConfigManager, WorkspaceOperationStorage } from './config/WorkspaceConfig.js';
+import {
+  ChatSession,
+  DEFAULT_CHAT_MAX_TURNS,
+  WorkspaceConfigManager,
+  WorkspaceOperationStorage,
+  ResearchSession,
+  ResearchSessionFilter,
+  UPLOAD_OPERATION_STATUSES,
+  UploadOperationFilter,
+  UploadOperationRecord,
+} from './config/WorkspaceConfig.js';
+import { StoreResolutionError, StoreResolver } from './fileSearch/StoreResolver.js';
+import { StoreMirror, excludeFromPlan, restrictPlan } from './fileSearch/StoreMirror.js';
+import { selectUploadFiles } from './fileSearch/localFiles.js';
+import { DEFAULT_UPLOAD_CONCURRENCY, uploadFiles, uploadLocalFile } from './fileSearch/uploadFiles.js';
+import { recordProcessedFile, startTiming, summarizeThroughput } from './fileSearch/uploadMetrics.js';
+import { METADATA_FILE, createMetadataResolver, validateMetadata } from './fileSearch/uploadMetadata.js';
+import { GroundedAnswer, QUERY_OUTPUT_FORMATS, extractGroundedAnswer, formatGroundedAnswer } from './fileSearch/grounding.js';
+import { FileCompatibility, checkFileCompatibility } from './fileSearch/mimeCompatibility.js';
+import { filterDocuments, paginate, summarizeDocument } from './fileSearch/documents.js';
+import { InteractionCache } from './research/InteractionCache.js';
+import { ReportArchive } from './research/ReportArchive.js';
+import { ResearchProgressReporter } from './research/ResearchProgressReporter.js';
+import { REPORT_FORMATS, ReportExporter, inferReportFormat } from './research/ReportExporter.js';
+import { REPORT_TEMPLATES_DIRECTORY, ReportTemplate, ReportTemplateError, findReportTemplate, formatReportTemplate, loadReportTemplates } from './research/reportTemplates.js';
+import { ResearchPlan, ResearchPlanError, ResearchPlanSchema, buildPlanPrompt, formatResearchPlan, parseResearchPlan } from './research/researchPlan.js';
+import { BIBLIOGRAPHY_STYLES, extractCitations, formatBibtex } from './research/citations.js';
+import { OutputPathError, prepareOutputPath, writeFileAtomic } from './utils/outputPath.js';
+import { PollResult, pollUntil, resolvePollingConfig } from './utils/polling.js';
+import { TokenBucket } from './utils/rateLimiter.js';
+import { randomUUID } from 'crypto';
 import * as fs from 'fs';
-import { setTimeout } from 'timers/promises';
+import * as path from 'path';
 
 // Initialize SDK and Managers
 const apiKey = process.env.GEMINI_DEEP_RESEARCH_API_KEY || process.env.GEMINI_API_KEY;
@@ -34,12 +64,280 @@ const fileUploader = new FileUploader(client);
 const uploadOperationManager = new UploadOperationManager(new WorkspaceOperationStorage());
 const researchManager = new ResearchManager(client);
 const reportGenerator = new ReportGenerator();
+const reportExporter = new ReportExporter(reportGenerator);
+const storeResolver = new StoreResolver(fileSearchManager, WorkspaceConfigManager);
+const storeMirror = new StoreMirror(fileUploader, fileSearchManager);
 
 const server = new McpServer({
   name: 'gemini-deep-research',
   version: '0.0.1',
 });
 
+const STORE_REFERENCE_DESCRIPTION = 'The file search store: its display name or resource name (e.g., "Project Docs" or fileSearchStores/...)';
+
+/**
+ * Converts a store resolution failure into a tool error result. Other errors are rethrown.
+ */
+function storeResolutionErrorResult(error: unknown): { isError: true; content: Array<{ type: 'text'; text: string }> } {
+  if (error instanceof StoreResolutionError) {
+    return { isError: true, content: [{ type: 'text', text: error.message }] };
+  }
+  throw error;
+}
+
+/**
+ * Parses the since/until filter of a list tool. A date-only until such as 2026-10-19
+ * covers that whole day (UTC), since it means "on or before"; returns undefined if invalid.
+ */
+function parseDateFilter(key: 'since' | 'until', value: string): Date | undefined {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return undefined;
+  if (key === 'until' && /^\d{4}-\d{2}-\d{2}$/.test(value.trim())) {
+    date.setUTCHours(23, 59, 59, 999);
+  }
+  return date;
+}
+
+const RESUMABLE_UPLOAD_STATUSES = ['interrupted', 'cancelled', 'failed'];
+
+/** Marks failed deletions in a mirror's failedFilesList; retries leave these out */
+const DELETE_FAILURE_PREFIX = 'Delete failed: ';
+
+/** Abort controllers for uploads running in this process, keyed by operation ID */
+const activeUploads = new Map<string, AbortController>();
+
+/**
+ * Runs an upload operation in the background (fire-and-forget) using its recorded
+ * settings. Files already processed or failed are left out, so resuming an operation
+ * goes through here too.
+ */
+function startUpload(operation: UploadOperationRecord): void {
+  const { id: operationId, path: fsPath, storeName, smartSync, include, exclude } = operation;
+  const controller = new AbortController();
+  activeUploads.set(operationId, controller);
+
+  const processedFiles = [...(operation.processedFiles ?? [])];
+  const failedPaths = new Set(operation.failedFilesList.map((failure) => failure.file));
+  let completedFiles = operation.completedFiles;
+  let skippedFiles = operation.skippedFiles;
+  let failedFiles = operation.failedFiles;
+
+  const concurrency = operation.concurrency ?? DEFAULT_UPLOAD_CONCURRENCY;
+  // Bursts are capped at one request per worker, and never exceed a minute's allowance
+  const rateLimiter = operation.requestsPerMinute
+    ? new TokenBucket(operation.requestsPerMinute / 60, { capacity: Math.min(concurrency, operation.requestsPerMinute) })
+    : undefined;
+  const chunkingConfig = operation.chunking && { whiteSpaceConfig: operation.chunking };
+  const timing = startTiming();
+  WorkspaceConfigManager.updateUploadOperation(operationId, { pid: process.pid, timing });
+
+  const recordProcessed = (relativePath: string, uploaded?: { bytes: number; durationMs: number }): void => {
+    processedFiles.push(relativePath);
+    recordProcessedFile(timing, uploaded && { path: relativePath, bytes: uploaded.bytes, durationMs: uploaded.durationMs });
+    WorkspaceConfigManager.updateUploadOperation(operationId, { completedFiles, skippedFiles, failedFiles, processedFiles, timing });
+  };
+  const recordFailed = (relativePath: string, message: string): void => {
+    recordProcessedFile(timing);
+    uploadOperationManager.addFailedFile(operationId, relativePath, message);
+    WorkspaceConfigManager.updateUploadOperation(operationId, { timing });
+  };
+  const recordRetry = (event: { path: string; attempt: number; delayMs: number; rateLimited: boolean; error: Error }): void => {
+    timing.retries++;
+    const reason = event.rateLimited ? 'rate limited' : event.error.message;
+    console.error(`[${operationId}] Retrying ${event.path} in ${Math.round(event.delayMs / 1000)}s (attempt ${event.attempt}, ${reason})`);
+    WorkspaceConfigManager.updateUploadOperation(operationId, { timing });
+  };
+  const finish = (summary: string): void => {
+    if (controller.signal.aborted) {
+      WorkspaceConfigManager.updateUploadOperation(operationId, { status: 'cancelled', completedAt: new Date().toISOString() });
+      console.error(`[${operationId}] Upload cancelled: ${summary}`);
+    } else {
+      uploadOperationManager.markCompleted(operationId);
+      console.error(`[${operationId}] Upload complete: ${summary}`);
+    }
+  };
+
+  (async (): Promise<void> => {
+    try {
+      if (operation.mirror) {
+        const metadataFor = createMetadataResolver(fsPath, operation.metadata);
+        const selectedPlan = await storeMirror.plan(fsPath, storeName, { include, exclude });
+        // A retry re-uploads only its files, then deletes the copies they supersede
+        const fullPlan = operation.retryFiles ? restrictPlan(selectedPlan, new Set(operation.retryFiles)) : selectedPlan;
+        const plan = excludeFromPlan(fullPlan, failedPaths);
+        const processed = new Set(processedFiles);
+        let deletedFiles = operation.deletedFiles ?? 0;
+        // Files uploaded before an interruption now compare as unchanged
+        skippedFiles = plan.unchanged.filter((filePath) => !processed.has(filePath)).length;
+
+        if (!operation.retryFiles) {
+          WorkspaceConfigManager.updateUploadOperation(operationId, { skippedByRules: plan.skippedByRules });
+        }
+        uploadOperationManager.markInProgress(operationId, fullPlan.add.length + fullPlan.update.length + fullPlan.unchanged.length);
+        uploadOperationManager.updateProgress(operationId, completedFiles, skippedFiles, failedFiles);
+        console.error(`[${operationId}] Mirroring ${fsPath}: ${plan.add.length} new, ${plan.update.length} changed, ${plan.unchanged.length} unchanged, ${plan.delete.length} to delete`);
+
+        await storeMirror.apply(plan, fsPath, storeName, (event) => {
+          if (event.type === 'file_complete') {
+            completedFiles++;
+            console.error(`[${operationId}] Uploaded: ${event.path}`);
+            recordProcessed(event.path, event);
+          } else if (event.type === 'file_retry') {
+            recordRetry(event);
+          } else if (event.type === 'file_error') {
+            failedFiles++;
+            console.error(`[${operationId}] Error uploading: ${event.path} - ${event.error.message}`);
+            recordFailed(event.path, event.error.message);
+          } else if (event.type === 'document_deleted') {
+            deletedFiles++;
+            console.error(`[${operationId}] Deleted: ${event.path} (${event.documentName})`);
+            WorkspaceConfigManager.updateUploadOperation(operationId, { deletedFiles });
+          } else if (event.type === 'delete_error') {
+            failedFiles++;
+            console.error(`[${operationId}] Error deleting: ${event.documentName} - ${event.error.message}`);
+            uploadOperationManager.addFailedFile(operationId, event.path, `${DELETE_FAILURE_PREFIX}${event.error.message}`);
+          }
+        }, { signal: controller.signal, mimeTypeFallback: operation.mimeTypeFallback, convert: operation.convert, concurrency, rateLimiter, chunkingConfig, metadataFor });
+
+        finish(`${completedFiles} uploaded, ${skippedFiles} skipped, ${deletedFiles} deleted, ${failedFiles} failed`);
+      } else if (fs.statSync(fsPath).isDirectory()) {
+        let files = operation.retryFiles;
+        if (!files) {
+          const selection = selectUploadFiles(fsPath, { include, exclude });
+          files = selection.files;
+          WorkspaceConfigManager.updateUploadOperation(operationId, { skippedByRules: selection.skippedByRules });
+        }
+        const total = files.length;
+        const processed = new Set(processedFiles);
+        const remaining = files.filter((file) => !processed.has(file) && !failedPaths.has(file));
+        const progressPercent = (): number =>
+          total > 0 ? Math.round(((completedFiles + skippedFiles + failedFiles) / total) * 100) : 100;
+
+        uploadOperationManager.markInProgress(operationId, total);
+        console.error(`[${operationId}] Starting upload of ${remaining.length} of ${total} files...${smartSync ? ' (smart sync enabled)' : ''}`);
+
+        await uploadFiles(fileUploader, fsPath, remaining, storeName, {
+          smartSync,
+          mimeTypeFallback: operation.mimeTypeFallback,
+          convert: operation.convert,
+          concurrency,
+          rateLimiter,
+          chunkingConfig,
+          metadataFor: createMetadataResolver(fsPath, operation.metadata),
+          signal: controller.signal,
+          onEvent: (event) => {
+            if (event.type === 'file_complete') {
+              completedFiles++;
+              console.error(`[${operationId}] [${progressPercent()}%] Uploaded: ${event.path}`);
+              recordProcessed(event.path, event);
+            } else if (event.type === 'file_retry') {
+              recordRetry(event);
+            } else if (event.type === 'file_skipped') {
+              skippedFiles++;
+              console.error(`[${operationId}] [${progressPercent()}%] Skipped (unchanged): ${event.path}`);
+              recordProcessed(event.path);
+            } else if (event.type === 'file_error') {
+              failedFiles++;
+              console.error(`[${operationId}] Error uploading: ${event.path} - ${event.error.message}`);
+              recordFailed(event.path, event.error.message);
+            }
+          },
+        });
+
+        finish(`${completedFiles} uploaded, ${skippedFiles} skipped, ${failedFiles} failed`);
+      } else {
+        // Single file upload; a cancel lets it finish, and a resume repeats it neither
+        // once uploaded nor once failed (file_search_upload_retry does that)
+        uploadOperationManager.markInProgress(operationId, 1);
+        const fileName = path.basename(fsPath);
+        if (!controller.signal.aborted && !processedFiles.includes(fileName) && !failedPaths.has(fileName)) {
+          console.error(`[${operationId}] Starting upload of single file: ${fsPath}`);
+          const bytes = fs.statSync(fsPath).size;
+          const startedAt = Date.now();
+          try {
+            await uploadLocalFile(fileUploader, path.dirname(fsPath), fileName, storeName, {
+              mimeTypeFallback: operation.mimeTypeFallback,
+              convert: operation.convert,
+              chunkingConfig,
+              metadata: createMetadataResolver(path.dirname(fsPath), operation.metadata)(fileName),
+            });
+          } catch (error: unknown) {
+            // Listed so file_search_upload_retry can try it again, e.g. with a mimeTypeFallback
+            failedFiles++;
+            recordFailed(fileName, error instanceof Error ? error.message : String(error));
+            throw error;
+          }
+          completedFiles++;
+          uploadOperationManager.updateProgress(operationId, completedFiles, skippedFiles, failedFiles);
+          recordProcessed(fileName, { bytes, durationMs: Date.now() - startedAt });
+        }
+
+        finish(`${completedFiles} uploaded`);
+      }
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[${operationId}] Upload failed:`, message);
+      uploadOperationManager.markFailed(operationId, message);
+    } finally {
+      activeUploads.delete(operationId);
+      applyUploadRetention();
+    }
+  })();
+}
+
+/**
+ * Failures of an operation that none of its retries (or their retries) recovered. A file
+ * that failed again keeps the error from its latest attempt.
+ */
+function unresolvedFailures(operation: UploadOperationRecord): UploadOperationRecord['failedFilesList'] {
+  let failures = operation.failedFilesList;
+  for (const retryId of operation.retryOperationIds ?? []) {
+    const retry: UploadOperationRecord | undefined = uploadOperationManager.getOperation(retryId);
+    if (!retry) continue;
+    const recovered = new Set(retry.processedFiles ?? []);
+    const latest = new Map(unresolvedFailures(retry).map((failure) => [failure.file, failure]));
+    failures = failures
+      .filter((failure) => !recovered.has(failure.file))
+      .map((failure) => latest.get(failure.file) ?? failure);
+  }
+  return failures;
+}
+
+/**
+ * Removes finished upload operations beyond the workspace's retention limits.
+ */
+function applyUploadRetention(): void {
+  try {
+    const { maxOperations, maxAgeDays } = WorkspaceConfigManager.getUploadRetention();
+    const removed = WorkspaceConfigManager.pruneUploadOperations({ keep: maxOperations, olderThanDays: maxAgeDays });
+    if (removed.length > 0) {
+      console.error(`Pruned ${removed.length} finished upload operation(s) beyond the retention limits`);
+    }
+  } catch (error: unknown) {
+    console.error('Failed to prune upload history:', error);
+  }
+}
+
+/**
+ * Compact view of an upload operation for listings, without per-file details.
+ */
+function summarizeUploadOperation(operation: UploadOperationRecord): Record<string, unknown> {
+  return {
+    operationId: operation.id,
+    status: operation.status,
+    path: operation.path,
+    storeName: operation.storeName,
+    totalFiles: operation.totalFiles,
+    completedFiles: operation.completedFiles,
+    skippedFiles: operation.skippedFiles,
+    failedFiles: operation.failedFiles,
+    mirror: operation.mirror,
+    parentOperationId: operation.parentOperationId,
+    startedAt: operation.startedAt,
+    completedAt: operation.completedAt,
+  };
+}
+
 // --- File Search Tools ---
 
 server.registerTool(
@@ -76,79 +374,101 @@ server.registerTool(
 server.registerTool(
   'file_search_upload',
   {
-    description: 'Starts an async upload of a file or directory to a file search store. Returns immediately with an operation ID. Use file_search_upload_status to check progress.',
+    description: 'Starts an async upload of a file or directory to a file search store. Returns immediately with an operation ID. Use file_search_upload_status to check progress. In mirror mode, documents whose local file was deleted are also removed from the store.',
     inputSchema: z.object({
       path: z.string().describe('Absolute path to the local file or directory'),
-      storeName: z.string().describe('The resource name of the file search store (e.g., fileSearchStores/...)'),
+      storeName: z.string().describe(STORE_REFERENCE_DESCRIPTION),
       smartSync: z.boolean().optional().default(false).describe('If true, skip uploading files that have not changed (based on hash comparison)'),
+      mirror: z.boolean().optional().default(false).describe('Directories only: make the store match the directory. Unchanged files are skipped, changed files replace their old version, and documents whose local file no longer exists are deleted. Only documents uploaded by a mirror of this same directory are updated or deleted; documents from other directories or from non-mirror uploads are left alone'),
+      dryRun: z.boolean().optional().default(false).describe('With mirror: report the files that would be added or updated and the documents that would be deleted, without changing anything'),
+      include: z.array(z.string()).optional().describe('Directories only: upload just the files matching these globs (.gitignore syntax, e.g. "*.md", "docs/**")'),
+      exclude: z.array(z.string()).optional().describe('Directories only: skip files and directories matching these globs (.gitignore syntax, e.g. "node_modules/", "*.log"). .gitignore and .geminiresearchignore files are always honoured'),
+      convert: z.boolean().optional().default(false).describe('Upload text files without a natively supported type (e.g., .ts, .json, .yaml, Dockerfile) as text/plain with a filename header. See file_search_upload_preview'),
+      concurrency: z.number().int().min(1).max(20).optional().describe(`Directories only: maximum uploads in flight (default: ${DEFAULT_UPLOAD_CONCURRENCY})`),
+      requestsPerMinute: z.number().int().positive().optional().describe('Directories only: cap on upload requests per minute. Uploads answered with 429 are retried with backoff either way'),
+      metadata: z.record(z.string(), z.string()).optional().describe(`Custom metadata for every uploaded document (e.g., {"project": "atlas", "version": "2.x"}), usable in file_search_query's metadataFilter. ${METADATA_FILE} files in the uploaded directories add or override keys for the files below them`),
+      chunking: z.object({
+        maxTokensPerChunk: z.number().int().positive().optional().describe('Maximum tokens per chunk'),
+        maxOverlapTokens: z.number().int().min(0).optional().describe('Tokens shared between adjacent chunks'),
+      }).optional().describe('How documents are split into chunks for retrieval; the API default applies to anything left out'),
     }).shape,
   },
-  async ({ path: fsPath, storeName, smartSync }) => {
+  async ({ path: fsPath, storeName: storeReference, smartSync, mirror, dryRun, include, exclude, convert, concurrency, requestsPerMinute, metadata, chunking }) => {
     if (!fs.existsSync(fsPath)) {
       return { isError: true, content: [{ type: 'text', text: `Path not found: ${fsPath}` }] };
     }
 
+    let storeName: string;
+    try {
+      storeName = await storeResolver.resolve(storeReference);
+    } catch (error: unknown) {
+      return storeResolutionErrorResult(error);
+    }
+
     const stats = fs.statSync(fsPath);
     if (!stats.isDirectory() && !stats.isFile()) {
       return { isError: true, content: [{ type: 'text', text: `Path is not a file or directory: ${fsPath}` }] };
     }
+    if (dryRun && !mirror) {
+      return { isError: true, content: [{ type: 'text', text: 'dryRun is only supported together with mirror: true' }] };
+    }
+    if (mirror && !stats.isDirectory()) {
+      return { isError: true, content: [{ type: 'text', text: `Mirror mode requires a directory: ${fsPath}` }] };
+    }
+    const metadataProblem = metadata && validateMetadata(metadata);
+    if (metadataProblem) {
+      return { isError: true, content: [{ type: 'text', text: metadataProblem }] };
+    }
+    if (chunking?.maxTokensPerChunk !== undefined && chunking.maxOverlapTokens !== undefined
+      && chunking.maxOverlapTokens >= chunking.maxTokensPerChunk) {
+      return { isError: true, content: [{ type: 'text', text: 'chunking.maxOverlapTokens must be smaller than chunking.maxTokensPerChunk' }] };
+    }
 
-    // Create the operation record
-    const operation = uploadOperationManager.createOperation(fsPath, storeName, smartSync);
-    const operationId = operation.id;
-
-    // Start the upload in the background (fire-and-forget)
-    (async (): Promise<void> => {
+    if (dryRun) {
       try {
-        if (stats.isDirectory()) {
-          let completedFiles = 0;
-          let skippedFiles = 0;
-          let failedFiles = 0;
-
-          await fileUploader.uploadDirectory(fsPath, storeName, {
-            smartSync,
-            onProgress: (event) => {
-              if (event.type === 'start') {
-                // Mark as in progress with total file count from the uploader
-                uploadOperationManager.markInProgress(operationId, event.totalFiles ?? 0);
-                console.error(`[${operationId}] Starting upload of ${event.totalFiles} files...${smartSync ? ' (smart sync enabled)' : ''}`);
-              } else if (event.type === 'file_complete') {
-                completedFiles = event.completedFiles ?? completedFiles;
-                console.error(`[${operationId}] [${event.percentage}%] Uploaded: ${event.currentFile}`);
-                uploadOperationManager.updateProgress(operationId, completedFiles, skippedFiles, failedFiles);
-              } else if (event.type === 'file_skipped') {
-                skippedFiles = event.skippedFiles ?? skippedFiles;
-                console.error(`[${operationId}] [${event.percentage}%] Skipped (unchanged): ${event.currentFile}`);
-                uploadOperationManager.updateProgress(operationId, completedFiles, skippedFiles, failedFiles);
-              } else if (event.type === 'file_error') {
-                failedFiles++;
-                const errorMsg = event.error?.message || 'Unknown error';
-                console.error(`[${operationId}] Error uploading: ${event.currentFile} - ${errorMsg}`);
-                uploadOperationManager.addFailedFile(operationId, event.currentFile || 'unknown', errorMsg);
-              } else if (event.type === 'complete') {
-                console.error(`[${operationId}] Upload complete: ${event.completedFiles} uploaded, ${event.skippedFiles ?? 0} skipped, ${event.failedFiles} failed`);
-              }
-            }
-          });
-
-          uploadOperationManager.markCompleted(operationId);
-        } else {
-          // Single file upload
-          uploadOperationManager.markInProgress(operationId, 1);
-          console.error(`[${operationId}] Starting upload of single file: ${fsPath}`);
-
-          await fileUploader.uploadFile(fsPath, storeName);
-
-          uploadOperationManager.updateProgress(operationId, 1, 0, 0);
-          uploadOperationManager.markCompleted(operationId);
-          console.error(`[${operationId}] Upload complete`);
-        }
+        const plan = await storeMirror.plan(fsPath, storeName, { include, exclude });
+        const report = {
+          dryRun: true,
+          path: fsPath,
+          storeName,
+          summary: {
+            add: plan.add.length,
+            update: plan.update.length,
+            unchanged: plan.unchanged.length,
+            delete: plan.delete.length,
+            unmanaged: plan.unmanaged,
+            skippedByRules: plan.skippedByRules,
+          },
+          add: plan.add,
+          update: plan.update,
+          delete: plan.delete,
+        };
+        return { content: [{ type: 'text', text: JSON.stringify(report, null, 2) }] };
       } catch (error: unknown) {
         const message = error instanceof Error ? error.message : String(error);
-        console.error(`[${operationId}] Upload failed:`, message);
-        uploadOperationManager.markFailed(operationId, message);
+        return { isError: true, content: [{ type: 'text', text: `Failed to compare ${fsPath} with ${storeName}: ${message}` }] };
       }
-    })();
+    }
+
+    // Create the operation record, keeping the settings a resume needs
+    const settings = {
+      include,
+      exclude,
+      concurrency,
+      requestsPerMinute,
+      metadata,
+      chunking,
+      ...(convert ? { convert: true } : {}),
+      ...(mirror ? { mirror: true, deletedFiles: 0 } : {}),
+    };
+    const operation: UploadOperationRecord = {
+      ...uploadOperationManager.createOperation(fsPath, storeName, mirror ? true : smartSync),
+      ...settings,
+    };
+    const operationId = operation.id;
+    WorkspaceConfigManager.updateUploadOperation(operationId, settings);
+
+    startUpload(operation);
 
     // Return immediately with the operation ID
     return {
@@ -160,17 +480,84 @@ server.registerTool(
   }
 );
 
+server.registerTool(
+  'file_search_upload_preview',
+  {
+    description: 'Checks which files under a path would upload as-is, which would be sent as text/plain via the text fallback, which would be converted, and which would be rejected. Applies the same ignore rules and globs as file_search_upload. Nothing is uploaded.',
+    inputSchema: z.object({
+      path: z.string().describe('Absolute path to the local file or directory'),
+      include: z.array(z.string()).optional().describe('Directories only: check just the files matching these globs (.gitignore syntax)'),
+      exclude: z.array(z.string()).optional().describe('Directories only: skip files and directories matching these globs (.gitignore syntax)'),
+      convert: z.boolean().optional().default(false).describe('Preview with conversion enabled, as file_search_upload would run with convert: true'),
+    }).shape,
+  },
+  async ({ path: fsPath, include, exclude, convert }) => {
+    if (!fs.existsSync(fsPath)) {
+      return { isError: true, content: [{ type: 'text', text: `Path not found: ${fsPath}` }] };
+    }
+
+    const isDirectory = fs.statSync(fsPath).isDirectory();
+    const rootDir = isDirectory ? fsPath : path.dirname(fsPath);
+    const { files, skippedByRules } = isDirectory
+      ? selectUploadFiles(fsPath, { include, exclude })
+      : { files: [path.basename(fsPath)], skippedByRules: 0 };
+
+    const preview = {
+      native: [] as string[],
+      fallback: [] as string[],
+      converted: [] as string[],
+      rejected: [] as Array<{ path: string; reason?: string }>,
+    };
+    for (const file of files) {
+      let compatibility: FileCompatibility;
+      try {
+        compatibility = checkFileCompatibility(path.join(rootDir, file), { convert });
+      } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : String(error);
+        compatibility = { status: 'rejected', reason: message };
+      }
+      if (compatibility.status === 'rejected') {
+        preview.rejected.push({ path: file, reason: compatibility.reason });
+      } else {
+        preview[compatibility.status].push(file);
+      }
+    }
+
+    const report = {
+      path: fsPath,
+      convert,
+      summary: {
+        native: preview.native.length,
+        fallback: preview.fallback.length,
+        converted: preview.converted.length,
+        rejected: preview.rejected.length,
+        skippedByRules,
+      },
+      ...preview,
+    };
+    return { content: [{ type: 'text', text: JSON.stringify(report, null, 2) }] };
+  }
+);
+
 server.registerTool(
   'file_search_delete_store',
   {
     description: 'Deletes a file search store.',
     inputSchema: z.object({
-      name: z.string().describe('The resource name of the store to delete'),
+      name: z.string().describe('The store to delete: its display name or resource name'),
       force: z.boolean().optional().default(false).describe('Whether to force delete even if contains documents'),
     }).shape,
   },
-  async ({ name, force }) => {
+  async ({ name: storeReference, force }) => {
+    let name: string;
+    try {
+      name = await storeResolver.resolve(storeReference);
+    } catch (error: unknown) {
+      return storeResolutionErrorResult(error);
+    }
+
     await fileSearchManager.deleteStore(name, force);
+    WorkspaceConfigManager.removeFileSearchStore(name);
     return { content: [{ type: 'text', text: `Deleted store: ${name}` }] };
   }
 );
@@ -184,7 +571,7 @@ server.registerTool(
     }).shape,
   },
   async ({ operationId }) => {
-    const operation = uploadOperationManager.getOperation(operationId);
+    const operation: UploadOperationRecord | undefined = uploadOperationManager.getOperation(operationId);
 
     if (!operation) {
       return { isError: true, content: [{ type: 'text', text: `Operation not found: ${operationId}` }] };
@@ -205,6 +592,7 @@ server.registerTool(
         completedFiles: operation.completedFiles,
         skippedFiles: operation.skippedFiles,
         failedFiles: operation.failedFiles,
+        skippedByRules: operation.skippedByRules,
         percentage,
       },
       startedAt: operation.startedAt,
@@ -212,39 +600,344 @@ server.registerTool(
       error: operation.error,
     };
 
+    if (operation.mirror) {
+      statusInfo.mirror = true;
+      statusInfo.deletedFiles = operation.deletedFiles ?? 0;
+    }
+
+    if (operation.timing) {
+      const running = operation.status === 'in_progress';
+      const remainingFiles = Math.max(0, operation.totalFiles - operation.completedFiles - operation.skippedFiles - operation.failedFiles);
+      const end = running || !operation.completedAt ? new Date() : new Date(operation.completedAt);
+      statusInfo.throughput = summarizeThroughput(operation.timing, running ? remainingFiles : 0, end);
+    }
+
     // Only include failedFilesList if there are failed files
     if (operation.failedFilesList && operation.failedFilesList.length > 0) {
       statusInfo.failedFilesList = operation.failedFilesList;
     }
 
+    if (RESUMABLE_UPLOAD_STATUSES.includes(operation.status)) {
+      statusInfo.resumable = true;
+    }
+
+    if (operation.parentOperationId) {
+      statusInfo.parentOperationId = operation.parentOperationId;
+    }
+    if (operation.retryOperationIds && operation.retryOperationIds.length > 0) {
+      const unresolved = unresolvedFailures(operation);
+      statusInfo.retryOperationIds = operation.retryOperationIds;
+      statusInfo.netOutcome = {
+        recoveredFiles: operation.failedFilesList.length - unresolved.length,
+        failedFiles: unresolved.length,
+        ...(unresolved.length > 0 ? { failedFilesList: unresolved } : {}),
+      };
+    }
+
     return { content: [{ type: 'text', text: JSON.stringify(statusInfo, null, 2) }] };
   }
 );
 
+server.registerTool(
+  'file_search_upload_cancel',
+  {
+    description: 'Cancels a running upload operation. Files already being uploaded finish; no further files are started. Use file_search_upload_resume to continue it later.',
+    inputSchema: z.object({
+      operationId: z.string().describe('The upload operation ID returned by file_search_upload'),
+    }).shape,
+  },
+  async ({ operationId }) => {
+    const operation: UploadOperationRecord | undefined = uploadOperationManager.getOperation(operationId);
+    if (!operation) {
+      return { isError: true, content: [{ type: 'text', text: `Operation not found: ${operationId}` }] };
+    }
+
+    const controller = activeUploads.get(operationId);
+    if (controller) {
+      controller.abort();
+      return {
+        content: [{
+          type: 'text',
+          text: `Cancelling upload ${operationId}. Files already being uploaded will finish; the status changes to cancelled once they have.`,
+        }],
+      };
+    }
+    if (operation.status === 'interrupted') {
+      WorkspaceConfigManager.updateUploadOperation(operationId, { status: 'cancelled', completedAt: new Date().toISOString() });
+      return { content: [{ type: 'text', text: `Upload ${operationId} cancelled.` }] };
+    }
+    if (operation.status === 'pending' || operation.status === 'in_progress') {
+      return {
+        isError: true,
+        content: [{
+          type: 'text',
+          text: `Upload ${operationId} is running in another server process${operation.pid ? ` (pid ${operation.pid})` : ''} and cannot be cancelled from here.`,
+        }],
+      };
+    }
+    return { isError: true, content: [{ type: 'text', text: `Upload ${operationId} is not running (status: ${operation.status}).` }] };
+  }
+);
+
+server.registerTool(
+  'file_search_upload_retry',
+  {
+    description: 'Re-attempts only the files that failed in an upload operation and that no earlier retry recovered. Runs as a new operation linked to the original; file_search_upload_status on the original then shows the net outcome. Retrying a mirror upload also deletes the old copies of the files it re-uploads. Failed mirror deletions are not retried: run the mirror again instead.',
+    inputSchema: z.object({
+      operationId: z.string().describe('The upload operation whose failed files to retry'),
+      mimeTypeFallback: z.string().regex(/^[\w.+-]+\/[\w.+-]+$/, 'Expected a MIME type such as "text/plain"').optional()
+        .describe('MIME type to upload files with when their type is not recognised (e.g., "text/plain")'),
+    }).shape,
+  },
+  async ({ operationId, mimeTypeFallback }) => {
+    const operation: UploadOperationRecord | undefined = uploadOperationManager.getOperation(operationId);
+    if (!operation) {
+      return { isError: true, content: [{ type: 'text', text: `Operation not found: ${operationId}` }] };
+    }
+    if (activeUploads.has(operationId) || operation.status === 'pending' || operation.status === 'in_progress') {
+      return { isError: true, content: [{ type: 'text', text: `Upload ${operationId} is still running. Retry it once it has finished.` }] };
+    }
+
+    const retryFiles = [...new Set(
+      unresolvedFailures(operation)
+        .filter((failure) => !failure.error.startsWith(DELETE_FAILURE_PREFIX))
+        .map((failure) => failure.file)
+    )];
+    if (retryFiles.length === 0) {
+      return { isError: true, content: [{ type: 'text', text: `Upload ${operationId} has no failed files to retry.` }] };
+    }
+
+    const settings = {
+      parentOperationId: operationId,
+      retryFiles,
+      mimeTypeFallback,
+      convert: operation.convert,
+      concurrency: operation.concurrency,
+      requestsPerMinute: operation.requestsPerMinute,
+      metadata: operation.metadata,
+      chunking: operation.chunking,
+      ...(operation.mirror ? { mirror: true, deletedFiles: 0 } : {}),
+    };
+    const retry: UploadOperationRecord = {
+      ...uploadOperationManager.createOperation(operation.path, operation.storeName, false),
+      ...settings,
+    };
+    WorkspaceConfigManager.updateUploadOperation(retry.id, settings);
+    WorkspaceConfigManager.updateUploadOperation(operationId, {
+      retryOperationIds: [...(operation.retryOperationIds ?? []), retry.id],
+    });
+
+    startUpload(retry);
+
+    return {
+      content: [{
+        type: 'text',
+        text: `Retrying ${retryFiles.length} failed files of ${operationId}. Operation ID: ${retry.id}\nStatus: pending\nUse file_search_upload_status to check progress.`,
+      }],
+    };
+  }
+);
+
+server.registerTool(
+  'file_search_upload_resume',
+  {
+    description: 'Resumes an interrupted, cancelled or failed upload operation under the same operation ID. Only files that were not yet uploaded, skipped or failed are processed. Use file_search_upload_status to check progress.',
+    inputSchema: z.object({
+      operationId: z.string().describe('The upload operation ID returned by file_search_upload'),
+    }).shape,
+  },
+  async ({ operationId }) => {
+    const operation: UploadOperationRecord | undefined = uploadOperationManager.getOperation(operationId);
+    if (!operation) {
+      return { isError: true, content: [{ type: 'text', text: `Operation not found: ${operationId}` }] };
+    }
+    if (activeUploads.has(operationId) || !RESUMABLE_UPLOAD_STATUSES.includes(operation.status)) {
+      return {
+        isError: true,
+        content: [{
+          type: 'text',
+          text: `Upload ${operationId} cannot be resumed (status: ${operation.status}). Only interrupted, cancelled or failed uploads can be resumed.`,
+        }],
+      };
+    }
+    if (!fs.existsSync(operation.path)) {
+      return { isError: true, content: [{ type: 'text', text: `Path not found: ${operation.path}` }] };
+    }
+
+    const resumed = WorkspaceConfigManager.updateUploadOperation(operationId, {
+      status: 'pending',
+      completedAt: undefined,
+      error: undefined,
+    }) ?? operation;
+    startUpload(resumed);
+
+    const processed = operation.processedFiles?.length ?? 0;
+    return {
+      content: [{
+        type: 'text',
+        text: `Upload resumed. Operation ID: ${operationId}\nAlready processed: ${processed} files, ${operation.failedFiles} failed (not retried)\nUse file_search_upload_status to check progress.`,
+      }],
+    };
+  }
+);
+
+server.registerTool(
+  'file_search_upload_list',
+  {
+    description: 'Lists upload operations recorded in the workspace, newest first. Supports filtering by status, store and start date.',
+    inputSchema: z.object({
+      status: z.enum(UPLOAD_OPERATION_STATUSES).optional().describe('Only include operations with this status'),
+      storeName: z.string().optional().describe(`Only include uploads to this store. ${STORE_REFERENCE_DESCRIPTION}`),
+      since: z.string().optional().describe('Only include operations started on or after this ISO date'),
+      until: z.string().optional().describe('Only include operations started on or before this ISO date; a date without a time includes that whole day'),
+      limit: z.number().int().min(1).max(500).optional().default(50).describe('Maximum number of operations to return (default: 50)'),
+    }).shape,
+  },
+  async ({ status, storeName: storeReference, since, until, limit }) => {
+    const filter: UploadOperationFilter = { status };
+    for (const [key, value] of [['since', since], ['until', until]] as const) {
+      if (value === undefined) continue;
+      const date = parseDateFilter(key, value);
+      if (!date) {
+        return { isError: true, content: [{ type: 'text', text: `Invalid date for ${key}: ${value}` }] };
+      }
+      filter[key] = date;
+    }
+    if (storeReference !== undefined) {
+      try {
+        filter.storeName = await storeResolver.resolve(storeReference);
+      } catch (error: unknown) {
+        return storeResolutionErrorResult(error);
+      }
+    }
+
+    const operations = WorkspaceConfigManager.listUploadOperations(filter);
+    const result = {
+      operations: operations.slice(0, limit).map(summarizeUploadOperation),
+      totalMatching: operations.length,
+    };
+    return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+  }
+);
+
+server.registerTool(
+  'file_search_upload_prune',
+  {
+    description: 'Removes finished (completed, failed or cancelled) upload operations from the workspace history. Without keep or olderThanDays, all finished operations are removed. Running and interrupted operations are never removed.',
+    inputSchema: z.object({
+      keep: z.number().int().nonnegative().optional().describe('Keep this many of the most recently finished operations'),
+      olderThanDays: z.number().nonnegative().optional().describe('Remove operations that finished more than this many days ago'),
+      status: z.enum(['completed', 'failed', 'cancelled']).optional().describe('Only remove operations with this status'),
+      dryRun: z.boolean().optional().default(false).describe('List what would be removed without removing it'),
+    }).shape,
+  },
+  async ({ keep, olderThanDays, status, dryRun }) => {
+    const removed = WorkspaceConfigManager.pruneUploadOperations({
+      keep,
+      olderThanDays,
+      statuses: status ? [status] : undefined,
+      dryRun,
+    });
+    const result = {
+      dryRun,
+      removed: removed.length,
+      operationIds: removed.map((operation) => operation.id),
+    };
+    return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+  }
+);
+
+interface QueryOptions {
+  model?: string;
+  temperature?: number;
+  systemInstruction?: string;
+  metadataFilter?: string;
+}
+
+type ConversationTurn = { role: 'user' | 'model'; content: string };
+
+/**
+ * Asks a question grounded on the given stores and collects the answer with its sources.
+ * A conversation is given as its turns, ending with the user's new message.
+ */
+async function queryFileSearch(
+  input: string | ConversationTurn[],
+  storeNames: string[],
+  options: QueryOptions
+): Promise<GroundedAnswer> {
+  const interaction: Interaction = await client.interactions.create({
+    model: options.model ?? defaultModel,
+    input,
+    ...(options.systemInstruction ? { system_instruction: options.systemInstruction } : {}),
+    ...(options.temperature !== undefined ? { generation_config: { temperature: options.temperature } } : {}),
+    tools: [{
+      type: 'file_search',
+      file_search_store_names: storeNames,
+      ...(options.metadataFilter ? { metadata_filter: options.metadataFilter } : {}),
+    }],
+  });
+  // Runtime guard: ensure outputs is an array
+  return extractGroundedAnswer(Array.isArray(interaction.outputs) ? interaction.outputs : []);
+}
+
 server.registerTool(
   'file_search_query',
   {
-    description: 'Queries a file search store using a model to get grounded answers.',
+    description: 'Queries one or more file search stores using a model to get grounded answers, followed by the documents that back them (cited passages, retrieved excerpts and the share of the answer each supports). Set compareStores to get one answer per store side by side.',
     inputSchema: z.object({
       query: z.string().describe('The question to ask the model'),
-      storeName: z.string().describe('The resource name of the file search store'),
+      storeName: z.string().optional().describe(`${STORE_REFERENCE_DESCRIPTION}. Use storeNames to query several stores`),
+      storeNames: z.array(z.string()).optional().describe('File search stores (display names or resource names) to ground on together'),
+      compareStores: z.boolean().optional().default(false).describe('With several stores: ask each store separately and return the answers side by side'),
+      model: z.string().optional().describe(`Model to answer with (default: ${defaultModel})`),
+      temperature: z.number().min(0).max(2).optional().describe('Sampling temperature; lower values give more deterministic answers'),
+      systemInstruction: z.string().optional().describe('System instruction for the model, e.g. the role to answer in or the format to answer with'),
+      metadataFilter: z.string().optional().describe('Only ground on documents whose custom metadata matches this filter (AIP-160 syntax, e.g. \'version = "2.x"\' or \'project = "atlas" AND owner = "docs-team"\')'),
+      outputFormat: z.enum(QUERY_OUTPUT_FORMATS).optional().default('text').describe('"text" (default): the answer with a Sources section. "json": { answer, sources } with full excerpts, for checking answers programmatically'),
     }).shape,
   },
-  async ({ query, storeName }) => {
+  async ({ query, storeName: storeReference, storeNames: storeReferences, compareStores, model, temperature, systemInstruction, metadataFilter, outputFormat }) => {
+    const references = [...(storeReference ? [storeReference] : []), ...(storeReferences ?? [])];
+    if (references.length === 0) {
+      return { isError: true, content: [{ type: 'text', text: 'Provide storeName or storeNames.' }] };
+    }
+
+    let storeNames: string[];
     try {
-      const interaction: Interaction = await fileSearchManager.queryStore(storeName, query, defaultModel);
+      storeNames = await storeResolver.resolveAll(references);
+    } catch (error: unknown) {
+      return storeResolutionErrorResult(error);
+    }
+    if (compareStores && storeNames.length < 2) {
+      return { isError: true, content: [{ type: 'text', text: 'compareStores needs at least two different stores.' }] };
+    }
+    const options: QueryOptions = { model, temperature, systemInstruction, metadataFilter };
 
-      // Runtime guard: ensure outputs is an array
-      if (!interaction.outputs || !Array.isArray(interaction.outputs)) {
-        return { content: [{ type: 'text', text: 'No response generated.' }] };
-      }
+    if (compareStores) {
+      const results = await Promise.allSettled(storeNames.map((name) => queryFileSearch(query, [name], options)));
+      const answers = results.map((result, index) => result.status === 'fulfilled'
+        ? { storeName: storeNames[index], ...result.value }
+        : { storeName: storeNames[index], error: result.reason instanceof Error ? result.reason.message : String(result.reason) });
+      const isError = answers.every((answer) => 'error' in answer);
 
-      // Find the first text output with proper type guard
-      const textOutput = interaction.outputs.find(
-        (output): output is TextContent => output.type === 'text'
-      );
-      const text = textOutput?.text || 'No response generated.';
+      if (outputFormat === 'json') {
+        return { ...(isError ? { isError } : {}), content: [{ type: 'text', text: JSON.stringify({ answers }, null, 2) }] };
+      }
+      const sections = answers.map((answer) => {
+        const body = 'error' in answer
+          ? `Query failed: ${answer.error}`
+          : answer.answer ? formatGroundedAnswer(answer, 3) : 'No response generated.';
+        return `## ${answer.storeName}\n\n${body.trimEnd()}`;
+      });
+      return { ...(isError ? { isError } : {}), content: [{ type: 'text', text: `${sections.join('\n\n')}\n` }] };
+    }
 
+    try {
+      const grounded = await queryFileSearch(query, storeNames, options);
+      if (outputFormat === 'json') {
+        return { content: [{ type: 'text', text: JSON.stringify(grounded, null, 2) }] };
+      }
+      const text = grounded.answer ? formatGroundedAnswer(grounded) : 'No response generated.';
       return { content: [{ type: 'text', text }] };
     } catch (error: unknown) {
       const message = error instanceof Error ? error.message : String(error);
@@ -253,32 +946,439 @@ server.registerTool(
   }
 );
 
+server.registerTool(
+  'file_search_chat_start',
+  {
+    description: 'Starts a conversation grounded on one or more file search stores. Returns a session ID for file_search_chat, which keeps earlier turns as context so follow-up questions can refer back to them. End it with file_search_chat_end.',
+    inputSchema: z.object({
+      storeName: z.string().optional().describe(`${STORE_REFERENCE_DESCRIPTION}. Use storeNames to ground on several stores`),
+      storeNames: z.array(z.string()).optional().describe('File search stores (display names or resource names) to ground on together'),
+      model: z.string().optional().describe(`Model to answer with (default: ${defaultModel})`),
+      temperature: z.number().min(0).max(2).optional().describe('Sampling temperature; lower values give more deterministic answers'),
+      systemInstruction: z.string().optional().describe('System instruction for the model, applied to every turn'),
+      metadataFilter: z.string().optional().describe('Only ground on documents whose custom metadata matches this filter (AIP-160 syntax)'),
+      maxTurns: z.number().int().min(1).max(100).optional().default(DEFAULT_CHAT_MAX_TURNS).describe(`Earlier turns to keep as context; older ones are dropped (default: ${DEFAULT_CHAT_MAX_TURNS})`),
+    }).shape,
+  },
+  async ({ storeName: storeReference, storeNames: storeReferences, model, temperature, systemInstruction, metadataFilter, maxTurns }) => {
+    const references = [...(storeReference ? [storeReference] : []), ...(storeReferences ?? [])];
+    if (references.length === 0) {
+      return { isError: true, content: [{ type: 'text', text: 'Provide storeName or storeNames.' }] };
+    }
+
+    let storeNames: string[];
+    try {
+      storeNames = await storeResolver.resolveAll(references);
+    } catch (error: unknown) {
+      return storeResolutionErrorResult(error);
+    }
+
+    const session: ChatSession = {
+      id: `chat-${randomUUID()}`,
+      storeNames,
+      model,
+      temperature,
+      systemInstruction,
+      metadataFilter,
+      maxTurns,
+      turns: [],
+      droppedTurns: 0,
+      startedAt: new Date().toISOString(),
+    };
+    WorkspaceConfigManager.addChatSession(session);
+    return {
+      content: [{
+        type: 'text',
+        text: `Chat session started. Session ID: ${session.id}\nStores: ${storeNames.join(', ')}\nUse file_search_chat to ask questions and file_search_chat_end when done.`,
+      }],
+    };
+  }
+);
+
+server.registerTool(
+  'file_search_chat',
+  {
+    description: 'Sends a message in a file search chat session. The answer is grounded on the session\'s stores, with the session\'s earlier turns as context, and followed by its sources.',
+    inputSchema: z.object({
+      sessionId: z.string().describe('The session ID returned by file_search_chat_start'),
+      message: z.string().describe('The question or follow-up to send'),
+      outputFormat: z.enum(QUERY_OUTPUT_FORMATS).optional().default('text').describe('"text" (default): the answer with a Sources section. "json": { sessionId, turn, answer, sources }'),
+    }).shape,
+  },
+  async ({ sessionId, message, outputFormat }) => {
+    const session = WorkspaceConfigManager.getChatSession(sessionId);
+    if (!session) {
+      return { isError: true, content: [{ type: 'text', text: `Chat session not found: ${sessionId}` }] };
+    }
+
+    const input: ConversationTurn[] = [
+      ...session.turns.flatMap((turn): ConversationTurn[] => [
+        { role: 'user', content: turn.query },
+        { role: 'model', content: turn.answer },
+      ]),
+      { role: 'user', content: message },
+    ];
+
+    let grounded: GroundedAnswer;
+    try {
+      grounded = await queryFileSearch(input, session.storeNames, session);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return { isError: true, content: [{ type: 'text', text: `Query failed: ${errorMessage}` }] };
+    }
+
+    // Unanswered messages are not kept, so a retry does not repeat them
+    if (grounded.answer) {
+      WorkspaceConfigManager.appendChatTurn(sessionId, { query: message, answer: grounded.answer, askedAt: new Date().toISOString() });
+    }
+    if (outputFormat === 'json') {
+      const turn = session.droppedTurns + session.turns.length + 1;
+      return { content: [{ type: 'text', text: JSON.stringify({ sessionId, turn, ...grounded }, null, 2) }] };
+    }
+    const text = grounded.answer ? formatGroundedAnswer(grounded) : 'No response generated.';
+    return { content: [{ type: 'text', text }] };
+  }
+);
+
+server.registerTool(
+  'file_search_chat_end',
+  {
+    description: 'Ends a file search chat session and discards its history.',
+    inputSchema: z.object({
+      sessionId: z.string().describe('The session ID returned by file_search_chat_start'),
+    }).shape,
+  },
+  async ({ sessionId }) => {
+    if (!WorkspaceConfigManager.removeChatSession(sessionId)) {
+      return { isError: true, content: [{ type: 'text', text: `Chat session not found: ${sessionId}` }] };
+    }
+    return { content: [{ type: 'text', text: `Chat session ${sessionId} ended.` }] };
+  }
+);
+
+server.registerTool(
+  'file_search_list_documents',
+  {
+    description: 'Lists the documents in a file search store, sorted by path. Supports filtering by uploaded path prefix or display name, and pagination.',
+    inputSchema: z.object({
+      storeName: z.string().describe(STORE_REFERENCE_DESCRIPTION),
+      pathPrefix: z.string().optional().describe('Only include documents whose uploaded relative path starts with this prefix (e.g., "src/")'),
+      displayName: z.string().optional().describe('Only include documents whose display name contains this text (case-insensitive)'),
+      pageSize: z.number().int().min(1).max(500).optional().default(50).describe('Maximum number of documents to return (default: 50)'),
+      pageToken: z.string().optional().describe('The nextPageToken from a previous call, to fetch the following page'),
+    }).shape,
+  },
+  async ({ storeName: storeReference, pathPrefix, displayName, pageSize, pageToken }) => {
+    let storeName: string;
+    try {
+      storeName = await storeResolver.resolve(storeReference);
+    } catch (error: unknown) {
+      return storeResolutionErrorResult(error);
+    }
+
+    try {
+      const documents = (await fileSearchManager.listDocuments(storeName))
+        .map(summarizeDocument)
+        .sort((a, b) => (a.path ?? a.displayName ?? '').localeCompare(b.path ?? b.displayName ?? ''));
+      const page = paginate(filterDocuments(documents, { pathPrefix, displayName }), pageSize, pageToken);
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({
+            storeName,
+            documents: page.items,
+            totalMatching: page.total,
+            nextPageToken: page.nextPageToken,
+          }, null, 2)
+        }]
+      };
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      return { isError: true, content: [{ type: 'text', text: `Failed to list documents: ${message}` }] };
+    }
+  }
+);
+
+server.registerTool(
+  'file_search_get_document',
+  {
+    description: 'Gets a single document in a file search store, including its custom metadata.',
+    inputSchema: z.object({
+      name: z.string().describe('The document resource name (e.g., fileSearchStores/.../documents/...)'),
+    }).shape,
+  },
+  async ({ name }) => {
+    try {
+      const document = await fileSearchManager.getDocument(name);
+      return { content: [{ type: 'text', text: JSON.stringify(summarizeDocument(document), null, 2) }] };
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      return { isError: true, content: [{ type: 'text', text: `Failed to get document: ${message}` }] };
+    }
+  }
+);
+
+server.registerTool(
+  'file_search_delete_document',
+  {
+    description: 'Deletes a single document from a file search store.',
+    inputSchema: z.object({
+      name: z.string().describe('The document resource name (e.g., fileSearchStores/.../documents/...)'),
+    }).shape,
+  },
+  async ({ name }) => {
+    try {
+      await fileSearchManager.deleteDocument(name);
+      return { content: [{ type: 'text', text: `Deleted document: ${name}` }] };
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      return { isError: true, content: [{ type: 'text', text: `Failed to delete document: ${message}` }] };
+    }
+  }
+);
+
+// --- Research Session Helpers ---
+
+// Abort controllers for research_perform polling loops, keyed by interaction ID
+const activeResearchPolls = new Map<string, AbortController>();
+
+interface ResearchSessionParams {
+  input: string;
+  report_format?: string;
+  model: string;
+  fileSearchStoreNames?: string[];
+  tags?: string[];
+  parentId?: string;
+}
+
+/**
+ * Prepends the requested report template's instructions to the research input.
+ */
+function formatResearchInput(input: string, template?: ReportTemplate): string {
+  return template ? `${formatReportTemplate(template)}\n\n${input}` : input;
+}
+
+/**
+ * Looks up the template a report_format names, among the built-in and workspace templates.
+ * Throws ReportTemplateError when the name matches no valid template.
+ */
+function reportTemplateFor(reportFormat?: string): ReportTemplate | undefined {
+  return reportFormat === undefined ? undefined : findReportTemplate(loadReportTemplates(), reportFormat);
+}
+
+/**
+ * Converts a report template failure into a tool error result. Other errors are rethrown.
+ */
+function reportTemplateErrorResult(error: unknown): { isError: true; content: Array<{ type: 'text'; text: string }> } {
+  if (error instanceof ReportTemplateError) {
+    return { isError: true, content: [{ type: 'text', text: error.message }] };
+  }
+  throw error;
+}
+
+/**
+ * Records a newly started interaction in the workspace session registry.
+ */
+function recordResearchSession(interaction: Interaction, params: ResearchSessionParams): void {
+  WorkspaceConfigManager.addResearchSession({
+    id: interaction.id,
+    input: params.input,
+    reportFormat: params.report_format,
+    model: params.model,
+    fileSearchStoreNames: params.fileSearchStoreNames ?? [],
+    status: interaction.status,
+    tags: params.tags ?? [],
+    startedAt: interaction.created ?? new Date().toISOString(),
+    parentId: params.parentId,
+  });
+}
+
+/**
+ * Updates the registry with the latest observed status of an interaction.
+ */
+function refreshResearchSession(interaction: Interaction): void {
+  const now = new Date().toISOString();
+  WorkspaceConfigManager.updateResearchSession(interaction.id, {
+    status: interaction.status,
+    updatedAt: now,
+    ...(isTerminalStatus(interaction.status)
+      ? { completedAt: interaction.updated ?? now }
+      : {}),
+  });
+}
+
+/**
+ * Opens the on-disk cache of terminal interactions with the workspace's size limits.
+ */
+function openInteractionCache(): InteractionCache {
+  return new InteractionCache(undefined, WorkspaceConfigManager.getCacheLimits());
+}
+
+/**
+ * Stores a terminal interaction in the cache. Cache write failures are logged only.
+ */
+function cacheInteraction(interaction: Interaction): void {
+  try {
+    openInteractionCache().set(interaction);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[${interaction.id}] Failed to cache interaction: ${message}`);
+  }
+}
+
+/**
+ * Fetches an interaction, serving terminal interactions from the local cache unless
+ * `refresh` is set.
+ */
+async function getInteraction(id: string, refresh = false): Promise<Interaction> {
+  if (!refresh) {
+    const cached = openInteractionCache().get(id);
+    if (cached) return cached;
+  }
+  const interaction = await researchManager.getStatus(id);
+  cacheInteraction(interaction);
+  return interaction;
+}
+
+/**
+ * Saves a completed interaction's report to the reports archive and regenerates the
+ * archive index. Each recorded session is archived at most once; failures are logged only.
+ */
+function archiveResearchReport(interaction: Interaction): void {
+  if (interaction.status !== 'completed' || !interaction.outputs) return;
+  const session = WorkspaceConfigManager.getResearchSession(interaction.id);
+  if (!session || session.archivedReport) return;
+
+  try {
+    const archive = new ReportArchive(reportGenerator, WorkspaceConfigManager.getReportsDirectory());
+    const archivedReport = archive.save(interaction, session);
+    WorkspaceConfigManager.updateResearchSession(interaction.id, { archivedReport });
+    archive.writeIndex(WorkspaceConfigManager.listResearchSessions());
+    console.error(`[${interaction.id}] Report archived to ${archivedReport.path}`);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[${interaction.id}] Failed to archive report: ${message}`);
+  }
+}
+
+/**
+ * Deletes a removed session's archived report and regenerates the archive index
+ * without it. Failures are logged only.
+ */
+function unarchiveResearchReport(session: ResearchSession | undefined): void {
+  if (!session?.archivedReport) return;
+
+  try {
+    const archive = new ReportArchive(reportGenerator, WorkspaceConfigManager.getReportsDirectory());
+    archive.remove(session.archivedReport);
+    archive.writeIndex(WorkspaceConfigManager.listResearchSessions());
+    console.error(`[${session.id}] Archived report deleted: ${session.archivedReport.path}`);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[${session.id}] Failed to delete archived report: ${message}`);
+  }
+}
+
 // --- Research Tools ---
 
+server.registerTool(
+  'research_list_templates',
+  {
+    description: `Lists the report templates research_start, research_followup, research_perform and research_plan accept as report_format: the built-in ones and the JSON templates in the workspace's ${REPORT_TEMPLATES_DIRECTORY}/ directory, with their sections, length targets and citation requirements. Template files that could not be used are listed with the reason.`,
+    inputSchema: z.object({}).shape,
+  },
+  async () => {
+    const { templates, invalidFiles } = loadReportTemplates();
+    return {
+      content: [{ type: 'text', text: JSON.stringify({ directory: REPORT_TEMPLATES_DIRECTORY, templates, invalidFiles }, null, 2) }],
+    };
+  }
+);
+
+server.registerTool(
+  'research_plan',
+  {
+    description: 'Proposes a plan for a Deep Research session without starting it: the sub-questions to answer, the kinds of sources to prioritize, the report sections and any scope constraints. Review and edit the plan with the user, then pass it to research_start as plan.',
+    inputSchema: z.object({
+      topic: z.string().describe('The research topic or question'),
+      report_format: z.string().optional().describe('Name of a report template (see research_list_templates), used to propose the report sections'),
+      model: z.string().optional().describe(`Model to draft the plan with (default: ${defaultModel})`),
+    }).shape,
+  },
+  async ({ topic, report_format, model }) => {
+    let template: ReportTemplate | undefined;
+    try {
+      template = reportTemplateFor(report_format);
+    } catch (error: unknown) {
+      return reportTemplateErrorResult(error);
+    }
+
+    let plan: ResearchPlan;
+    try {
+      const interaction: Interaction = await client.interactions.create({
+        model: model ?? defaultModel,
+        input: buildPlanPrompt(topic, template && formatReportTemplate(template)),
+        response_mime_type: 'application/json',
+        response_format: z.toJSONSchema(ResearchPlanSchema),
+      });
+      const outputs = Array.isArray(interaction.outputs) ? interaction.outputs : [];
+      plan = parseResearchPlan(outputs.map((output) => (output.type === 'text' ? output.text ?? '' : '')).join(''));
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      const prefix = error instanceof ResearchPlanError ? '' : 'Failed to draft a research plan: ';
+      return { isError: true, content: [{ type: 'text', text: `${prefix}${message}` }] };
+    }
+    return {
+      content: [{
+        type: 'text',
+        text: `${formatResearchPlan(plan)}\n\nEdit the plan as needed, then pass it to research_start as plan:\n\n\`\`\`json\n${JSON.stringify(plan, null, 2)}\n\`\`\`\n`,
+      }],
+    };
+  }
+);
+
 server.registerTool(
   'research_start',
   {
-    description: 'Starts a new Deep Research interaction in the background.',
+    description: 'Starts a new Deep Research interaction in the background, from a query or from a plan approved via research_plan.',
     inputSchema: z.object({
-      input: z.string().describe('The research query or instructions'),
-      report_format: z.string().optional().describe('The desired format of the report (e.g., "Executive Brief", "Technical Deep Dive", "Comprehensive Research Report")'),
+      input: z.string().optional().describe('The research query or instructions. With a plan: additional instructions'),
+      plan: ResearchPlanSchema.optional().describe('An approved plan from research_plan, possibly edited, to structure the research'),
+      report_format: z.string().optional().describe('Name of a report template (see research_list_templates), e.g. "Executive Brief", "Technical Deep Dive" or "Market Analysis"'),
       model: z.string().optional().default(defaultResearchModel).describe(`The agent to use (default: ${defaultResearchModel})`),
-      fileSearchStoreNames: z.array(z.string()).optional().describe('Optional list of file search store names for grounding'),
+      fileSearchStoreNames: z.array(z.string()).optional().describe('Optional list of file search stores (display names or resource names) for grounding'),
+      tags: z.array(z.string()).optional().describe('Optional tags to attach to the session for later filtering'),
     }).shape,
   },
-  async ({ input, report_format, model, fileSearchStoreNames }) => {
-    let finalInput = input;
-    if (report_format) {
-      finalInput = `[Report Format: ${report_format}]\n\n${input}`;
+  async ({ input: instructions, plan, report_format, model, fileSearchStoreNames: storeReferences, tags }) => {
+    const input = plan
+      ? `${formatResearchPlan(plan)}${instructions ? `\n\n## Additional Instructions\n\n${instructions}` : ''}`
+      : instructions;
+    if (!input) {
+      return { isError: true, content: [{ type: 'text', text: 'Provide input or plan.' }] };
+    }
+
+    let template: ReportTemplate | undefined;
+    try {
+      template = reportTemplateFor(report_format);
+    } catch (error: unknown) {
+      return reportTemplateErrorResult(error);
+    }
+
+    let fileSearchStoreNames: string[] | undefined;
+    try {
+      fileSearchStoreNames = storeReferences && await storeResolver.resolveAll(storeReferences);
+    } catch (error: unknown) {
+      return storeResolutionErrorResult(error);
     }
 
     const interaction = await researchManager.startResearch({
-      input: finalInput,
+      input: formatResearchInput(input, template),
       model,
       fileSearchStoreNames,
     });
     if (interaction.id) {
-        WorkspaceConfigManager.addResearchId(interaction.id);
+        recordResearchSession(interaction, { input, report_format: template?.name, model, fileSearchStoreNames, tags });
     }
     return { 
       content: [{ 
@@ -289,31 +1389,222 @@ server.registerTool(
   }
 );
 
+server.registerTool(
+  'research_followup',
+  {
+    description: 'Asks a follow-up question on a completed Deep Research interaction, continuing from its context in the background.',
+    inputSchema: z.object({
+      id: z.string().describe('The completed interaction ID to continue from'),
+      input: z.string().describe('The follow-up question or instructions (e.g., "Expand section 3")'),
+      report_format: z.string().optional().describe('Name of a report template for the follow-up report (see research_list_templates)'),
+      model: z.string().optional().describe('The agent to use (default: the agent of the previous interaction)'),
+      fileSearchStoreNames: z.array(z.string()).optional().describe('File search stores (display names or resource names) for grounding (default: the stores of the previous interaction)'),
+      tags: z.array(z.string()).optional().describe('Optional tags to attach to the session for later filtering'),
+    }).shape,
+  },
+  async ({ id, input, report_format, model, fileSearchStoreNames, tags }) => {
+    let template: ReportTemplate | undefined;
+    try {
+      template = reportTemplateFor(report_format);
+    } catch (error: unknown) {
+      return reportTemplateErrorResult(error);
+    }
+
+    const previous = await getInteraction(id);
+    refreshResearchSession(previous);
+    if (previous.status !== 'completed') {
+      return { isError: true, content: [{ type: 'text', text: `Interaction ${id} is not completed. Current status: ${previous.status}` }] };
+    }
+
+    const parentSession = WorkspaceConfigManager.getResearchSession(id);
+    const agent = model ?? parentSession?.model ?? previous.agent ?? defaultResearchModel;
+    let storeNames: string[];
+    try {
+      storeNames = fileSearchStoreNames
+        ? await storeResolver.resolveAll(fileSearchStoreNames)
+        : parentSession?.fileSearchStoreNames ?? [];
+    } catch (error: unknown) {
+      return storeResolutionErrorResult(error);
+    }
+
+    const interaction: Interaction = await client.interactions.create({
+      agent,
+      input: formatResearchInput(input, template),
+      previous_interaction_id: id,
+      background: true,
+      tools: storeNames.length > 0
+        ? [{ type: 'file_search', file_search_store_names: storeNames }]
+        : undefined,
+    });
+    if (interaction.id) {
+      recordResearchSession(interaction, {
+        input,
+        report_format: template?.name,
+        model: agent,
+        fileSearchStoreNames: storeNames,
+        tags: tags ?? parentSession?.tags,
+        parentId: id,
+      });
+    }
+    return {
+      content: [{
+        type: 'text',
+        text: `Follow-up started. ID: ${interaction.id} (continues ${id})\nStatus: ${interaction.status}\nUse research_status to check progress.`
+      }]
+    };
+  }
+);
+
+server.registerTool(
+  'research_thread',
+  {
+    description: 'Reconstructs the conversation thread of a research session: the chain of follow-ups from the original research down to the given interaction.',
+    inputSchema: z.object({
+      id: z.string().describe('The interaction ID'),
+    }).shape,
+  },
+  async ({ id }) => {
+    const thread = WorkspaceConfigManager.getResearchThread(id);
+    if (thread.length === 0) {
+      return { isError: true, content: [{ type: 'text', text: `Research session not found: ${id}` }] };
+    }
+    const followUps = WorkspaceConfigManager.listResearchSessions().filter((session) => session.parentId === id);
+    return {
+      content: [{
+        type: 'text',
+        text: JSON.stringify({ thread, followUps: followUps.map((session) => session.id) }, null, 2)
+      }]
+    };
+  }
+);
+
 server.registerTool(
   'research_status',
   {
     description: 'Checks the status and retrieves outputs of a Deep Research interaction.',
     inputSchema: z.object({
       id: z.string().describe('The interaction ID'),
+      refresh: z.boolean().optional().default(false).describe('Re-fetch the interaction from the API instead of using the local cache'),
     }).shape,
   },
-  async ({ id }) => {
-    const interaction = await researchManager.getStatus(id);
+  async ({ id, refresh }) => {
+    const interaction = await getInteraction(id, refresh);
+    refreshResearchSession(interaction);
+    archiveResearchReport(interaction);
     return { content: [{ type: 'text', text: JSON.stringify(interaction, null, 2) }] };
   }
 );
 
+server.registerTool(
+  'research_cancel',
+  {
+    description: 'Cancels a running Deep Research interaction. Any research_perform call waiting on it stops polling.',
+    inputSchema: z.object({
+      id: z.string().describe('The interaction ID'),
+    }).shape,
+  },
+  async ({ id }) => {
+    try {
+      const interaction = await researchManager.cancel(id);
+      refreshResearchSession(interaction);
+      activeResearchPolls.get(id)?.abort();
+      return { content: [{ type: 'text', text: `Research ${id} cancelled. Status: ${interaction.status}` }] };
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      return { isError: true, content: [{ type: 'text', text: `Cancel failed: ${message}` }] };
+    }
+  }
+);
+
+server.registerTool(
+  'research_delete',
+  {
+    description: 'Deletes a Deep Research interaction and removes it from the workspace records. Its archived report file is deleted too, and the archive index is regenerated without it.',
+    inputSchema: z.object({
+      id: z.string().describe('The interaction ID'),
+    }).shape,
+  },
+  async ({ id }) => {
+    try {
+      await researchManager.delete(id);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      return { isError: true, content: [{ type: 'text', text: `Delete failed: ${message}` }] };
+    }
+
+    activeResearchPolls.get(id)?.abort();
+    openInteractionCache().delete(id);
+    const session = WorkspaceConfigManager.getResearchSession(id);
+    WorkspaceConfigManager.removeResearchSession(id);
+    unarchiveResearchReport(session);
+    return { content: [{ type: 'text', text: `Deleted research: ${id}` }] };
+  }
+);
+
+server.registerTool(
+  'research_list',
+  {
+    description: 'Lists research sessions recorded in the workspace, newest first. Supports filtering by status, tag and start date.',
+    inputSchema: z.object({
+      status: z.string().optional().describe('Only include sessions with this last known status (e.g., "completed")'),
+      tag: z.string().optional().describe('Only include sessions carrying this tag'),
+      since: z.string().optional().describe('Only include sessions started on or after this ISO date'),
+      until: z.string().optional().describe('Only include sessions started on or before this ISO date; a date without a time includes that whole day'),
+    }).shape,
+  },
+  async ({ status, tag, since, until }) => {
+    const filter: ResearchSessionFilter = { status, tag };
+    for (const [key, value] of [['since', since], ['until', until]] as const) {
+      if (value === undefined) continue;
+      const date = parseDateFilter(key, value);
+      if (!date) {
+        return { isError: true, content: [{ type: 'text', text: `Invalid date for ${key}: ${value}` }] };
+      }
+      filter[key] = date;
+    }
+
+    const sessions = WorkspaceConfigManager.listResearchSessions(filter);
+    return { content: [{ type: 'text', text: JSON.stringify(sessions, null, 2) }] };
+  }
+);
+
+server.registerTool(
+  'research_tag',
+  {
+    description: 'Adds or removes tags on a recorded research session.',
+    inputSchema: z.object({
+      id: z.string().describe('The interaction ID'),
+      add: z.array(z.string()).optional().default([]).describe('Tags to add'),
+      remove: z.array(z.string()).optional().default([]).describe('Tags to remove'),
+    }).shape,
+  },
+  async ({ id, add, remove }) => {
+    const session = WorkspaceConfigManager.getResearchSession(id);
+    if (!session) {
+      return { isError: true, content: [{ type: 'text', text: `Research session not found: ${id}` }] };
+    }
+
+    const tags = [...new Set([...session.tags, ...add])].filter((tag) => !remove.includes(tag));
+    WorkspaceConfigManager.updateResearchSession(id, { tags });
+    return { content: [{ type: 'text', text: `Tags for ${id}: ${tags.length > 0 ? tags.join(', ') : '(none)'}` }] };
+  }
+);
+
 server.registerTool(
   'research_save_report',
   {
-    description: 'Generates a Markdown report from a completed research interaction and saves it to a file.',
+    description: 'Generates a report from a completed research interaction and saves it to a file. Supports Markdown, self-contained HTML, structured JSON and plain text.',
     inputSchema: z.object({
       id: z.string().describe('The interaction ID'),
-      filePath: z.string().describe('The local file path to save the report (e.g., report.md)'),
+      filePath: z.string().describe('The local file path to save the report (e.g., report.md, report.html)'),
+      format: z.enum(REPORT_FORMATS).optional().describe('Export format. Defaults to the format matching the file extension (.md, .html, .json, .txt), or markdown'),
+      bibliography: z.enum(BIBLIOGRAPHY_STYLES).optional().default('none').describe('Append a bibliography: "numbered", "apa" (APA-like), or "bibtex" (writes a .bib file alongside the report)'),
+      overwrite: z.boolean().optional().default(false).describe('Replace an existing file. If false, a suffixed filename (e.g., report-1.md) is used instead'),
+      refresh: z.boolean().optional().default(false).describe('Re-fetch the interaction from the API instead of using the local cache'),
     }).shape,
   },
-  async ({ id, filePath }) => {
-    const interaction = await researchManager.getStatus(id);
+  async ({ id, filePath, format, bibliography, overwrite, refresh }) => {
+    const interaction = await getInteraction(id, refresh);
     if (interaction.status !== 'completed') {
       return { isError: true, content: [{ type: 'text', text: `Interaction ${id} is not completed. Current status: ${interaction.status}` }] };
     }
@@ -322,9 +1613,51 @@ server.registerTool(
       return { isError: true, content: [{ type: 'text', text: 'No outputs found for this interaction.' }] };
     }
 
-    const markdown = reportGenerator.generateMarkdown(interaction.outputs);
-    fs.writeFileSync(filePath, markdown);
-    return { content: [{ type: 'text', text: `Report saved to ${filePath}` }] };
+    const reportFormat = format ?? inferReportFormat(filePath) ?? 'markdown';
+    const report = reportExporter.export(interaction.outputs, reportFormat, { bibliography });
+
+    // Paths are confined to the workspace (or configured output directories)
+    const pathOptions = { overwrite, allowedDirectories: WorkspaceConfigManager.getOutputDirectories() };
+    try {
+      const outputPath = prepareOutputPath(filePath, pathOptions);
+      writeFileAtomic(outputPath, report);
+
+      if (bibliography === 'bibtex') {
+        const bibPath = prepareOutputPath(
+          path.join(path.dirname(outputPath), `${path.parse(outputPath).name}.bib`),
+          pathOptions
+        );
+        writeFileAtomic(bibPath, formatBibtex(extractCitations(interaction.outputs)));
+        return { content: [{ type: 'text', text: `Report saved to ${outputPath}\nBibliography saved to ${bibPath}` }] };
+      }
+      return { content: [{ type: 'text', text: `Report saved to ${outputPath}` }] };
+    } catch (error: unknown) {
+      if (error instanceof OutputPathError) {
+        return { isError: true, content: [{ type: 'text', text: error.message }] };
+      }
+      throw error;
+    }
+  }
+);
+
+server.registerTool(
+  'research_get_sources',
+  {
+    description: 'Returns the deduplicated list of sources (web URLs and documents, with titles) cited by a completed research interaction.',
+    inputSchema: z.object({
+      id: z.string().describe('The interaction ID'),
+      includeUncited: z.boolean().optional().default(false).describe('Also include sources the agent retrieved but did not cite'),
+      refresh: z.boolean().optional().default(false).describe('Re-fetch the interaction from the API instead of using the local cache'),
+    }).shape,
+  },
+  async ({ id, includeUncited, refresh }) => {
+    const interaction = await getInteraction(id, refresh);
+    if (interaction.status !== 'completed') {
+      return { isError: true, content: [{ type: 'text', text: `Interaction ${id} is not completed. Current status: ${interaction.status}` }] };
+    }
+
+    const citations = extractCitations(interaction.outputs ?? [], { includeUncited });
+    return { content: [{ type: 'text', text: JSON.stringify(citations, null, 2) }] };
   }
 );
 
@@ -334,10 +1667,11 @@ server.registerTool(
     description: 'Generates a Markdown report from a completed research interaction and returns it as text.',
     inputSchema: z.object({
       id: z.string().describe('The interaction ID'),
+      refresh: z.boolean().optional().default(false).describe('Re-fetch the interaction from the API instead of using the local cache'),
     }).shape,
   },
-  async ({ id }) => {
-    const interaction = await researchManager.getStatus(id);
+  async ({ id, refresh }) => {
+    const interaction = await getInteraction(id, refresh);
     if (interaction.status !== 'completed') {
       return { isError: true, content: [{ type: 'text', text: `Interaction ${id} is not completed. Current status: ${interaction.status}` }] };
     }
@@ -354,24 +1688,34 @@ server.registerTool(
 server.registerTool(
   'research_perform',
   {
-    description: 'Synchronously performs Deep Research: starts the task, waits for completion, and returns the final Markdown report. Useful for agents to avoid polling loops.',
+    description: 'Synchronously performs Deep Research: starts the task, waits for completion, and returns the final Markdown report. Useful for agents to avoid polling loops. Sends progress notifications while waiting if the request includes a progressToken.',
     inputSchema: z.object({
       input: z.string().describe('The research query or instructions'),
-      report_format: z.string().optional().describe('The desired format of the report'),
+      report_format: z.string().optional().describe('Name of a report template (see research_list_templates), e.g. "Executive Brief", "Technical Deep Dive" or "Market Analysis"'),
       model: z.string().optional().default(defaultResearchModel).describe(`The agent to use (default: ${defaultResearchModel})`),
-      fileSearchStoreNames: z.array(z.string()).optional().describe('Optional list of file search store names for grounding'),
+      fileSearchStoreNames: z.array(z.string()).optional().describe('Optional list of file search stores (display names or resource names) for grounding'),
       timeoutSeconds: z.number().optional().default(1200).describe('Max seconds to wait (default: 1200/20min)'),
+      tags: z.array(z.string()).optional().describe('Optional tags to attach to the session for later filtering'),
     }).shape,
   },
-  async ({ input, report_format, model, fileSearchStoreNames, timeoutSeconds }) => {
-    // 1. Start Research
-    let finalInput = input;
-    if (report_format) {
-      finalInput = `[Report Format: ${report_format}]\n\n${input}`;
+  async ({ input, report_format, model, fileSearchStoreNames: storeReferences, timeoutSeconds, tags }, extra) => {
+    let template: ReportTemplate | undefined;
+    try {
+      template = reportTemplateFor(report_format);
+    } catch (error: unknown) {
+      return reportTemplateErrorResult(error);
     }
 
+    let fileSearchStoreNames: string[] | undefined;
+    try {
+      fileSearchStoreNames = storeReferences && await storeResolver.resolveAll(storeReferences);
+    } catch (error: unknown) {
+      return storeResolutionErrorResult(error);
+    }
+
+    // 1. Start Research
     const startInteraction = await researchManager.startResearch({
-      input: finalInput,
+      input: formatResearchInput(input, template),
       model,
       fileSearchStoreNames,
     });
@@ -380,38 +1724,62 @@ server.registerTool(
         return { isError: true, content: [{ type: 'text', text: 'Failed to start research interaction.' }] };
     }
     
-    WorkspaceConfigManager.addResearchId(startInteraction.id);
+    recordResearchSession(startInteraction, { input, report_format: template?.name, model, fileSearchStoreNames, tags });
     const researchId = startInteraction.id;
     console.error(`[research_perform] Started ID: ${researchId}. Waiting up to ${timeoutSeconds}s...`);
 
-    // 2. Poll for Completion
-    const startTime = Date.now();
+    // 2. Poll for Completion (research_cancel/research_delete abort the wait)
     const timeoutMs = timeoutSeconds * 1000;
-    
-    while (Date.now() - startTime < timeoutMs) {
-        const status = await researchManager.getStatus(researchId);
-        
-        if (status.status === 'completed') {
-            // 3. Generate Report
-            if (!status.outputs) {
-                return { isError: true, content: [{ type: 'text', text: 'Research completed but no outputs were found.' }] };
-            }
-            const markdown = reportGenerator.generateMarkdown(status.outputs);
-            return { content: [{ type: 'text', text: markdown }] };
-        }
-        
-        if (status.status === 'failed' || status.status === 'error') {
-            return { isError: true, content: [{ type: 'text', text: `Research failed with status: ${status.status}` }] };
-        }
+    const controller = new AbortController();
+    activeResearchPolls.set(researchId, controller);
+    const progressReporter = new ResearchProgressReporter(extra, timeoutMs);
+
+    let result: PollResult<Interaction>;
+    try {
+        result = await pollUntil(() => researchManager.getStatus(researchId), {
+            isDone: (status) => isTerminalStatus(status.status),
+            timeoutMs,
+            signal: controller.signal,
+            config: resolvePollingConfig(WorkspaceConfigManager.getPollingOverrides()),
+            onPoll: async (status) => {
+                refreshResearchSession(status);
+                await progressReporter.report(status);
+            },
+            onRetry: (error, attempt, delayMs) => {
+                const message = error instanceof Error ? error.message : String(error);
+                console.error(`[research_perform] Status check failed (attempt ${attempt}): ${message}. Retrying in ${delayMs}ms...`);
+            },
+        });
+    } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : String(error);
+        return { isError: true, content: [{ type: 'text', text: `Failed to check research status: ${message}. The task may still be running in the background (ID: ${researchId}). Use 'research_status' to check later.` }] };
+    } finally {
+        activeResearchPolls.delete(researchId);
+    }
+    if (result.value) cacheInteraction(result.value);
 
-        // Wait 5s before next poll
-        await setTimeout(5000);
+    if (result.status === 'aborted' || result.value?.status === 'cancelled') {
+        return { isError: true, content: [{ type: 'text', text: `Research ${researchId} was cancelled before completion.` }] };
     }
 
-    return { 
-        isError: true, 
-        content: [{ type: 'text', text: `Research timed out after ${timeoutSeconds} seconds. The task is likely still running in the background (ID: ${researchId}). Use 'research_status' to check later.` }] 
-    };
+    if (result.status === 'timeout') {
+        return { 
+            isError: true, 
+            content: [{ type: 'text', text: `Research timed out after ${timeoutSeconds} seconds. The task is likely still running in the background (ID: ${researchId}). Use 'research_status' to check later.` }] 
+        };
+    }
+
+    if (result.value.status === 'failed') {
+        return { isError: true, content: [{ type: 'text', text: `Research failed with status: ${result.value.status}` }] };
+    }
+
+    // 3. Generate Report
+    if (!result.value.outputs) {
+        return { isError: true, content: [{ type: 'text', text: 'Research completed but no outputs were found.' }] };
+    }
+    archiveResearchReport(result.value);
+    const markdown = reportGenerator.generateMarkdown(result.value.outputs);
+    return { content: [{ type: 'text', text: markdown }] };
   }
 );
 
@@ -421,6 +1789,11 @@ async function main(): Promise<void> {
   const transport = new StdioServerTransport();
   // Ensure config file exists
   WorkspaceConfigManager.load();
+  const interrupted = WorkspaceConfigManager.markInterruptedUploadOperations();
+  if (interrupted.length > 0) {
+    console.error(`Marked ${interrupted.length} orphaned upload operation(s) as interrupted: ${interrupted.join(', ')}. Use file_search_upload_resume to continue them.`);
+  }
+  applyUploadRetention();
   await server.connect(transport);
   console.error('Gemini Deep Research MCP server running on stdio');
 }
@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { Interaction } from '@allenhutchison/gemini-utils';
+import { InteractionCache } from './InteractionCache';
+
+function interaction(id: string, status = 'completed', text = 'Report'): Interaction {
+  return { id, status, outputs: [{ type: 'text', text }] } as unknown as Interaction;
+}
+
+describe('InteractionCache', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'interaction-cache-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should round-trip terminal interactions', () => {
+    const cache = new InteractionCache(tempDir);
+
+    expect(cache.set(interaction('interactions/abc'))).toBe(true);
+    expect(cache.get('interactions/abc')).toEqual(interaction('interactions/abc'));
+  });
+
+  it('should not cache interactions that are still running', () => {
+    const cache = new InteractionCache(tempDir);
+
+    expect(cache.set(interaction('running', 'in_progress'))).toBe(false);
+    expect(cache.get('running')).toBeUndefined();
+  });
+
+  it('should drop corrupt entries', () => {
+    const cache = new InteractionCache(tempDir);
+    cache.set(interaction('corrupt'));
+    fs.writeFileSync(path.join(tempDir, 'corrupt.json'), '{not json');
+
+    expect(cache.get('corrupt')).toBeUndefined();
+    expect(fs.existsSync(path.join(tempDir, 'corrupt.json'))).toBe(false);
+  });
+
+  it('should delete entries', () => {
+    const cache = new InteractionCache(tempDir);
+    cache.set(interaction('gone'));
+
+    cache.delete('gone');
+
+    expect(cache.get('gone')).toBeUndefined();
+  });
+
+  it('should evict the least recently used entry when over the entry limit', () => {
+    const cache = new InteractionCache(tempDir, { maxEntries: 2 });
+    cache.set(interaction('a'));
+    cache.set(interaction('b'));
+    fs.utimesSync(path.join(tempDir, 'a.json'), new Date(1000), new Date(1000));
+    fs.utimesSync(path.join(tempDir, 'b.json'), new Date(2000), new Date(2000));
+    cache.get('a');
+
+    cache.set(interaction('c'));
+
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('a')).toBeDefined();
+    expect(cache.get('c')).toBeDefined();
+  });
+
+  it('should evict entries over the size limit and skip oversized interactions', () => {
+    const entrySize = JSON.stringify({ cachedAt: new Date().toISOString(), interaction: interaction('a') }).length;
+    const cache = new InteractionCache(tempDir, { maxBytes: entrySize * 2 });
+    cache.set(interaction('a'));
+    fs.utimesSync(path.join(tempDir, 'a.json'), new Date(1000), new Date(1000));
+    cache.set(interaction('b'));
+    cache.set(interaction('c'));
+
+    expect(cache.get('a')).toBeUndefined();
+    expect(cache.set(interaction('huge', 'completed', 'x'.repeat(entrySize * 3)))).toBe(false);
+  });
+});
@@ -0,0 +1,109 @@
+import fs from 'fs';
+import path from 'path';
+import { Interaction, isTerminalStatus } from '@allenhutchison/gemini-utils';
+import { writeFileAtomic } from '../utils/outputPath.js';
+
+export const DEFAULT_CACHE_DIRECTORY = path.join('.gemini-research', 'cache');
+
+/**
+ * Size limits for the interaction cache. The least recently used entries are
+ * evicted once either limit is exceeded.
+ */
+export interface InteractionCacheLimits {
+  maxEntries: number;
+  maxBytes: number;
+}
+
+export const DEFAULT_CACHE_LIMITS: InteractionCacheLimits = {
+  maxEntries: 200,
+  maxBytes: 50 * 1024 * 1024,
+};
+
+interface CacheEntry {
+  cachedAt: string;
+  interaction: Interaction;
+}
+
+/**
+ * On-disk cache of interactions that reached a terminal status, keyed by ID.
+ * Terminal interactions never change, so cached copies are served without
+ * contacting the API.
+ */
+export class InteractionCache {
+  readonly directory: string;
+  private readonly limits: InteractionCacheLimits;
+
+  constructor(directory: string = DEFAULT_CACHE_DIRECTORY, limits: Partial<InteractionCacheLimits> = {}) {
+    this.directory = path.resolve(directory);
+    this.limits = { ...DEFAULT_CACHE_LIMITS, ...limits };
+  }
+
+  private entryPath(id: string): string {
+    return path.join(this.directory, `${encodeURIComponent(id)}.json`);
+  }
+
+  /**
+   * Returns the cached interaction, or undefined on a miss. Unreadable entries are dropped.
+   */
+  get(id: string): Interaction | undefined {
+    const entryPath = this.entryPath(id);
+    if (!fs.existsSync(entryPath)) return undefined;
+
+    try {
+      const entry = JSON.parse(fs.readFileSync(entryPath, 'utf-8')) as CacheEntry;
+      if (entry.interaction?.id !== id) throw new Error('Cache entry does not match its key');
+      // Bump the modification time so eviction is least-recently-used
+      const now = new Date();
+      fs.utimesSync(entryPath, now, now);
+      return entry.interaction;
+    } catch (error) {
+      console.error(`[cache] Discarding unreadable entry for ${id}:`, error);
+      fs.rmSync(entryPath, { force: true });
+      return undefined;
+    }
+  }
+
+  /**
+   * Stores an interaction if its status is terminal, then evicts entries over the limits.
+   * Returns false if the interaction was not cached.
+   */
+  set(interaction: Interaction): boolean {
+    if (!interaction.id || !isTerminalStatus(interaction.status)) return false;
+
+    const entry: CacheEntry = { cachedAt: new Date().toISOString(), interaction };
+    const data = JSON.stringify(entry);
+    if (Buffer.byteLength(data) > this.limits.maxBytes) return false;
+
+    writeFileAtomic(this.entryPath(interaction.id), data);
+    this.evict();
+    return true;
+  }
+
+  delete(id: string): void {
+    fs.rmSync(this.entryPath(id), { force: true });
+  }
+
+  /**
+   * Removes the least recently used entries until the cache is within its limits.
+   */
+  private evict(): void {
+    const entries = fs
+      .readdirSync(this.directory)
+      .filter((name) => name.endsWith('.json'))
+      .map((name) => {
+        const entryPath = path.join(this.directory, name);
+        const stats = fs.statSync(entryPath);
+        return { path: entryPath, size: stats.size, mtimeMs: stats.mtimeMs };
+      })
+      .sort((a, b) => a.mtimeMs - b.mtimeMs);
+
+    let totalBytes = entries.reduce((sum, entry) => sum + entry.size, 0);
+    let count = entries.length;
+    for (const entry of entries) {
+      if (count <= this.limits.maxEntries && totalBytes <= this.limits.maxBytes) break;
+      fs.rmSync(entry.path, { force: true });
+      totalBytes -= entry.size;
+      count--;
+    }
+  }
+}
@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { Interaction, ReportGenerator } from '@allenhutchison/gemini-utils';
+import type { ResearchSession } from '../config/WorkspaceConfig';
+import { ReportArchive, slugify } from './ReportArchive';
+
+function session(overrides: Partial<ResearchSession> = {}): ResearchSession {
+  return {
+    id: 'interactions/abc123xyz',
+    input: 'How do | pipes render?',
+    model: 'deep-research-pro-preview-12-2025',
+    fileSearchStoreNames: ['fileSearchStores/docs'],
+    status: 'completed',
+    tags: [],
+    startedAt: '2025-03-01T10:00:00Z',
+    completedAt: '2025-03-01T10:20:00Z',
+    ...overrides,
+  };
+}
+
+describe('slugify', () => {
+  it('should produce lowercase dash-separated slugs', () => {
+    expect(slugify('Café Économie: A "Deep" Dive!')).toBe('cafe-economie-a-deep-dive');
+  });
+
+  it('should fall back when nothing is left', () => {
+    expect(slugify('???')).toBe('report');
+  });
+});
+
+describe('ReportArchive', () => {
+  let tempDir: string;
+  let archive: ReportArchive;
+  const generateMarkdown = jest.fn((_outputs: unknown) => '# Markdown report\n');
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'report-archive-'));
+    archive = new ReportArchive({ generateMarkdown } as unknown as ReportGenerator, path.join(tempDir, 'reports'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should save the report under a dated, titled name', () => {
+    const interaction = {
+      id: 'interactions/abc123xyz',
+      status: 'completed',
+      outputs: [{ type: 'text', text: '# Pipe Rendering\n\nDetails' }],
+    } as unknown as Interaction;
+
+    const report = archive.save(interaction, session());
+
+    expect(report).toEqual({
+      path: path.join(archive.directory, '2025-03-01-pipe-rendering-bc123xyz.md'),
+      title: 'Pipe Rendering',
+    });
+    expect(fs.readFileSync(report.path, 'utf-8')).toBe('# Markdown report\n');
+  });
+
+  it('should use the query as the title when the report has no heading', () => {
+    const interaction = { id: 'i1', status: 'completed', outputs: [] } as unknown as Interaction;
+
+    expect(archive.save(interaction, session({ input: 'Survey of\nsolid-state batteries' })).title).toBe(
+      'Survey of solid-state batteries'
+    );
+  });
+
+  it('should write an index of archived reports, newest first', () => {
+    archive.writeIndex([
+      session({
+        id: 'older',
+        completedAt: '2025-01-01T00:00:00Z',
+        archivedReport: { path: path.join(archive.directory, 'older.md'), title: 'Older' },
+      }),
+      session({ id: 'not-archived' }),
+      session({ archivedReport: { path: path.join(archive.directory, 'new report.md'), title: 'Newer' } }),
+    ]);
+
+    const index = fs.readFileSync(archive.indexPath, 'utf-8');
+    const rows = index.split('\n').filter((line) => line.startsWith('| 2025'));
+    expect(rows).toEqual([
+      '| 2025-03-01 | [Newer](new%20report.md) | How do \\| pipes render? | deep-research-pro-preview-12-2025 | fileSearchStores/docs |',
+      '| 2025-01-01 | [Older](older.md) | How do \\| pipes render? | deep-research-pro-preview-12-2025 | fileSearchStores/docs |',
+    ]);
+  });
+
+  it('should remove an archived report, ignoring one already gone', () => {
+    const interaction = { id: 'i1', status: 'completed', outputs: [] } as unknown as Interaction;
+    const report = archive.save(interaction, session());
+
+    archive.remove(report);
+    archive.remove(report);
+
+    expect(fs.existsSync(report.path)).toBe(false);
+  });
+});
@@ -0,0 +1,114 @@
+import fs from 'fs';
+import path from 'path';
+import type { Interaction, ReportGenerator } from '@allenhutchison/gemini-utils';
+import type { ResearchSession } from '../config/WorkspaceConfig.js';
+import { buildStructuredReport } from './ReportExporter.js';
+import { writeFileAtomic } from '../utils/outputPath.js';
+
+export const DEFAULT_REPORTS_DIRECTORY = path.join('.gemini-research', 'reports');
+
+const INDEX_FILE = 'INDEX.md';
+const MAX_QUERY_LENGTH = 120;
+
+/**
+ * Location and title of a report written to the archive.
+ */
+export interface ArchivedReport {
+  path: string;
+  title: string;
+}
+
+/**
+ * Turns a title into a short, filesystem-safe slug.
+ */
+export function slugify(text: string, maxLength = 60): string {
+  const slug = text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, maxLength)
+    .replace(/-+$/, '');
+  return slug || 'report';
+}
+
+function tableCell(text: string): string {
+  return text.replace(/\s+/g, ' ').replace(/\|/g, '\\|').trim();
+}
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
+
+/**
+ * Saves completed research reports as Markdown files in a shared directory and
+ * maintains an INDEX.md listing them.
+ */
+export class ReportArchive {
+  readonly directory: string;
+
+  constructor(
+    private readonly markdownGenerator: ReportGenerator,
+    directory: string = DEFAULT_REPORTS_DIRECTORY
+  ) {
+    this.directory = path.resolve(directory);
+  }
+
+  get indexPath(): string {
+    return path.join(this.directory, INDEX_FILE);
+  }
+
+  /**
+   * Writes the report for a completed interaction, named `<date>-<title slug>-<id suffix>.md`.
+   * Falls back to the research query for the title when the report has no top-level heading.
+   */
+  save(interaction: Interaction, session: ResearchSession): ArchivedReport {
+    const outputs = interaction.outputs ?? [];
+    const heading = buildStructuredReport(outputs).sections.find((section) => section.level === 1)?.heading;
+    const title = heading ?? truncate(session.input.replace(/\s+/g, ' ').trim(), 80);
+
+    const date = (session.completedAt ?? interaction.updated ?? new Date().toISOString()).slice(0, 10);
+    const idSuffix = interaction.id.replace(/[^A-Za-z0-9]/g, '').slice(-8);
+    const reportPath = path.join(this.directory, `${date}-${slugify(title)}-${idSuffix}.md`);
+
+    writeFileAtomic(reportPath, this.markdownGenerator.generateMarkdown(outputs));
+    return { path: reportPath, title };
+  }
+
+  /**
+   * Deletes an archived report file; one that is already gone is ignored.
+   */
+  remove(report: ArchivedReport): void {
+    fs.rmSync(report.path, { force: true });
+  }
+
+  /**
+   * Regenerates INDEX.md from the archived sessions, newest first.
+   */
+  writeIndex(sessions: ResearchSession[]): void {
+    const rows = sessions
+      .filter((session) => session.archivedReport)
+      .sort((a, b) => (b.completedAt ?? b.startedAt).localeCompare(a.completedAt ?? a.startedAt))
+      .map((session) => {
+        const report = session.archivedReport!;
+        const link = path.relative(this.directory, report.path).split(path.sep).join('/');
+        return [
+          (session.completedAt ?? session.startedAt).slice(0, 10),
+          `[${tableCell(report.title)}](${encodeURI(link)})`,
+          tableCell(truncate(session.input, MAX_QUERY_LENGTH)),
+          tableCell(session.model ?? ''),
+          tableCell(session.fileSearchStoreNames.join(', ')),
+        ];
+      });
+
+    const lines = [
+      '# Research Reports',
+      '',
+      '| Date | Title | Query | Model | Stores |',
+      '| --- | --- | --- | --- | --- |',
+      ...rows.map((cells) => `| ${cells.join(' | ')} |`),
+    ];
+    writeFileAtomic(this.indexPath, lines.join('\n') + '\n');
+  }
+}
@@ -0,0 +1,182 @@
+import { jest, describe, it, expect } from '@jest/globals';
+import type { Interaction, ReportGenerator } from '@allenhutchison/gemini-utils';
+import {
+  ReportExporter,
+  buildStructuredReport,
+  inferReportFormat,
+  renderHtml,
+  renderPlainText,
+  splitSections,
+} from './ReportExporter';
+
+type InteractionOutput = NonNullable<Interaction['outputs']>[number];
+
+const reportText = '# Solid-State Batteries\n\nIntro text.\n\n## Findings\n\nEnergy density is rising.';
+const introEnd = reportText.indexOf('Intro text.') + 'Intro text.'.length;
+const findingsStart = reportText.indexOf('Energy');
+const outputs: InteractionOutput[] = [
+  {
+    type: 'text',
+    text: reportText,
+    annotations: [
+      { source: 'https://example.com/a', start_index: 0, end_index: introEnd },
+      { source: 'https://example.com/b', start_index: findingsStart, end_index: reportText.length },
+      { source: 'https://example.com/a', start_index: findingsStart, end_index: reportText.length },
+    ],
+  },
+  { type: 'thought', summary: [{ type: 'text', text: 'hidden' }] },
+];
+
+describe('inferReportFormat', () => {
+  it('should map known extensions to formats', () => {
+    expect(inferReportFormat('out/report.md')).toBe('markdown');
+    expect(inferReportFormat('report.HTML')).toBe('html');
+    expect(inferReportFormat('report.json')).toBe('json');
+    expect(inferReportFormat('report.txt')).toBe('text');
+  });
+
+  it('should return undefined for unknown extensions', () => {
+    expect(inferReportFormat('report.pdf')).toBeUndefined();
+    expect(inferReportFormat('report')).toBeUndefined();
+  });
+});
+
+describe('splitSections', () => {
+  it('should split at headings but not inside code fences', () => {
+    const markdown = 'Preamble\n# Title\nBody\n```\n# not a heading\n```\n## Sub ##\nMore';
+
+    expect(splitSections(markdown)).toEqual([
+      { heading: '', level: 0, content: 'Preamble' },
+      { heading: 'Title', level: 1, content: 'Body\n```\n# not a heading\n```' },
+      { heading: 'Sub', level: 2, content: 'More' },
+    ]);
+  });
+});
+
+describe('buildStructuredReport', () => {
+  it('should produce title, sections with citation markers and sources', () => {
+    const report = buildStructuredReport(outputs);
+
+    expect(report.title).toBe('Solid-State Batteries');
+    expect(report.sections).toEqual([
+      { heading: 'Solid-State Batteries', level: 1, content: 'Intro text.[1]' },
+      { heading: 'Findings', level: 2, content: 'Energy density is rising.[2][1]' },
+    ]);
+    expect(report.sources).toHaveLength(2);
+  });
+
+  it('should fall back to a default title', () => {
+    expect(buildStructuredReport([{ type: 'text', text: 'No headings' }]).title).toBe('Research Report');
+  });
+});
+
+describe('renderHtml', () => {
+  it('should render a self-contained document with linked citations', () => {
+    const html = renderHtml(outputs);
+
+    expect(html).toMatch(/^<!DOCTYPE html>/);
+    expect(html).toContain('<title>Solid-State Batteries</title>');
+    expect(html).toContain('<style>');
+    expect(html).toContain('<h2>Findings</h2>');
+    expect(html).toContain('<sup class="citation"><a href="#source-1">[1]</a></sup>');
+    expect(html).toContain('<li id="source-2"><a href="https://example.com/b">https://example.com/b</a></li>');
+    expect(html).not.toContain('hidden');
+  });
+
+  it('should place markers by UTF-8 byte offset', () => {
+    const text = 'Café prices rose. Other text.';
+    const html = renderHtml([
+      { type: 'text', text, annotations: [{ source: 'src', end_index: Buffer.byteLength('Café prices rose.') }] },
+    ]);
+
+    expect(html).toContain('Café prices rose.<sup class="citation"><a href="#source-1">[1]</a></sup> Other text.');
+  });
+
+  it('should escape non-URL sources', () => {
+    const html = renderHtml([
+      { type: 'text', text: 'Claim', annotations: [{ source: 'Internal <doc>', end_index: 5 }] },
+    ]);
+
+    expect(html).toContain('<li id="source-1">Internal &lt;doc&gt;</li>');
+  });
+
+  it('should escape titles and URLs in bibliography entries', () => {
+    const html = renderHtml(outputs, ['*<img src=x onerror="alert(1)">*. (n.d.). x.test. https://x.test/?a=1&b=2']);
+
+    expect(html).not.toContain('<img');
+    expect(html).toContain('<li><em>&lt;img src=x onerror=&quot;alert(1)&quot;&gt;</em>. (n.d.). x.test. ');
+    expect(html).toContain('<a href="https://x.test/?a=1&amp;b=2">https://x.test/?a=1&amp;b=2</a>');
+  });
+
+  it('should escape raw HTML and drop unsafe link targets from the report body', () => {
+    const html = renderHtml([
+      {
+        type: 'text',
+        text: 'Intro <script>alert(1)</script>\n\n<iframe src="https://evil.test"></iframe>\n\n' +
+          '[click](javascript:alert(1)) [encoded](&#106;avascript:alert(1)) [docs](https://docs.test) [mail](mailto:a@b.test)',
+        annotations: [{ source: 'https://example.com/a', end_index: 5 }],
+      },
+    ]);
+
+    expect(html).not.toMatch(/<script|<iframe|javascript:|&#106;avascript/);
+    expect(html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;');
+    expect(html).toContain('<p>click encoded <a href="https://docs.test">docs</a>');
+    expect(html).toContain('<a href="mailto:a@b.test">mail</a>');
+    expect(html).toContain('Intro<sup class="citation"><a href="#source-1">[1]</a></sup>');
+  });
+});
+
+describe('renderPlainText', () => {
+  it('should strip markdown and list sources', () => {
+    const markdown = '# Title\n\nSome **bold** and *italic* text with a [link](https://x.test) and `code`.';
+    const text = renderPlainText([
+      {
+        type: 'text',
+        text: markdown,
+        annotations: [{ source: 'https://example.com/a', end_index: markdown.length }],
+      },
+    ]);
+
+    expect(text).toBe(
+      'TITLE\n\nSome bold and italic text with a link (https://x.test) and code.[1]\n\n' +
+        'SOURCES\n[1] https://example.com/a\n'
+    );
+  });
+});
+
+describe('ReportExporter', () => {
+  it('should delegate markdown to the report generator', () => {
+    const generateMarkdown = jest.fn<(outputs: InteractionOutput[]) => string>().mockReturnValue('# Markdown');
+    const exporter = new ReportExporter({ generateMarkdown } as unknown as ReportGenerator);
+
+    expect(exporter.export(outputs, 'markdown')).toBe('# Markdown');
+    expect(generateMarkdown).toHaveBeenCalledWith(outputs);
+  });
+
+  it('should append a references section to markdown', () => {
+    const generateMarkdown = jest.fn<(outputs: InteractionOutput[]) => string>().mockReturnValue('# Markdown\n');
+    const exporter = new ReportExporter({ generateMarkdown } as unknown as ReportGenerator);
+
+    expect(exporter.export(outputs, 'markdown', { bibliography: 'numbered' })).toBe(
+      '# Markdown\n\n## References\n\n- [1] https://example.com/a\n- [2] https://example.com/b\n'
+    );
+  });
+
+  it('should include the bibliography in other formats', () => {
+    const exporter = new ReportExporter({} as ReportGenerator);
+
+    const html = exporter.export(outputs, 'html', { bibliography: 'apa' });
+    expect(html).toContain('<h2>References</h2>');
+    expect(html).toMatch(/<li><em>.*<\/em>\. \(n\.d\.\)\. example\.com\./);
+    expect(exporter.export(outputs, 'text', { bibliography: 'apa' })).toContain(
+      'REFERENCES\nhttps://example.com/a. (n.d.). example.com. https://example.com/a'
+    );
+    expect(JSON.parse(exporter.export(outputs, 'json', { bibliography: 'numbered' })).bibliography).toHaveLength(2);
+  });
+
+  it('should export JSON', () => {
+    const exporter = new ReportExporter({} as ReportGenerator);
+
+    expect(JSON.parse(exporter.export(outputs, 'json'))).toEqual(buildStructuredReport(outputs));
+  });
+});
@@ -0,0 +1,284 @@
+import path from 'path';
+import { Marked } from 'marked';
+import type { Interaction, ReportGenerator, TextContent } from '@allenhutchison/gemini-utils';
+import { BibliographyStyle, Citation, citationKey, extractCitations, formatBibliographyEntries } from './citations.js';
+
+type InteractionOutput = NonNullable<Interaction['outputs']>[number];
+
+export const REPORT_FORMATS = ['markdown', 'html', 'json', 'text'] as const;
+export type ReportFormat = (typeof REPORT_FORMATS)[number];
+
+const EXTENSION_FORMATS: Record<string, ReportFormat> = {
+  '.md': 'markdown',
+  '.markdown': 'markdown',
+  '.html': 'html',
+  '.htm': 'html',
+  '.json': 'json',
+  '.txt': 'text',
+};
+
+const DEFAULT_TITLE = 'Research Report';
+
+export interface ReportSection {
+  heading: string;
+  level: number;
+  content: string;
+}
+
+/**
+ * Machine-readable form of a report, used for the JSON export.
+ */
+export interface StructuredReport {
+  title: string;
+  sections: ReportSection[];
+  sources: Citation[];
+  bibliography?: string[];
+}
+
+export interface ExportOptions {
+  /** Appends a references section; 'bibtex' is written separately by the caller */
+  bibliography?: BibliographyStyle;
+}
+
+/**
+ * Picks the export format matching a file extension, if any.
+ */
+export function inferReportFormat(filePath: string): ReportFormat | undefined {
+  return EXTENSION_FORMATS[path.extname(filePath).toLowerCase()];
+}
+
+function isTextContent(output: InteractionOutput): output is TextContent {
+  return output.type === 'text';
+}
+
+/**
+ * Inserts a citation marker after each annotated segment. Annotation indices are
+ * byte offsets into the UTF-8 encoded text.
+ */
+function insertCitationMarkers(
+  output: TextContent,
+  sourceIds: Map<string, number>,
+  marker: (id: number) => string
+): string {
+  const text = output.text ?? '';
+  const bytes = Buffer.from(text, 'utf-8');
+  const markersByOffset = new Map<number, number[]>();
+  for (const annotation of output.annotations ?? []) {
+    if (!annotation.source || annotation.end_index === undefined) continue;
+    const offset = Math.min(Math.max(annotation.end_index, 0), bytes.length);
+    const id = sourceIds.get(citationKey(annotation.source))!;
+    const ids = markersByOffset.get(offset) ?? [];
+    if (!ids.includes(id)) ids.push(id);
+    markersByOffset.set(offset, ids);
+  }
+
+  let result = '';
+  let cursor = 0;
+  for (const offset of [...markersByOffset.keys()].sort((a, b) => a - b)) {
+    result += bytes.subarray(cursor, offset).toString('utf-8');
+    result += markersByOffset.get(offset)!.map(marker).join('');
+    cursor = offset;
+  }
+  return result + bytes.subarray(cursor).toString('utf-8');
+}
+
+function reportBody(outputs: InteractionOutput[], sources: Citation[], marker?: (id: number) => string): string {
+  const sourceIds = new Map(sources.map((s) => [citationKey(s.source), s.id]));
+  return outputs
+    .filter(isTextContent)
+    .map((output) => (marker ? insertCitationMarkers(output, sourceIds, marker) : (output.text ?? '')))
+    .join('\n\n')
+    .trim();
+}
+
+/**
+ * Splits markdown into sections at each heading, ignoring headings inside code fences.
+ * Content before the first heading becomes a section with an empty heading and level 0.
+ */
+export function splitSections(markdown: string): ReportSection[] {
+  const sections: ReportSection[] = [];
+  let current: ReportSection = { heading: '', level: 0, content: '' };
+  let inFence = false;
+
+  for (const line of markdown.split('\n')) {
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+    const match = inFence ? null : /^(#{1,6})\s+(.*?)\s*#*\s*$/.exec(line);
+    if (match) {
+      sections.push(current);
+      current = { heading: match[2], level: match[1].length, content: '' };
+    } else {
+      current.content += `${line}\n`;
+    }
+  }
+  sections.push(current);
+
+  return sections
+    .map((section) => ({ ...section, content: section.content.trim() }))
+    .filter((section) => section.heading || section.content);
+}
+
+function isUrl(source: string): boolean {
+  return /^https?:\/\//i.test(source);
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+const SAFE_LINK_PROTOCOLS = ['http:', 'https:', 'mailto:'];
+
+/**
+ * Whether a link target may be kept in the HTML export: relative links, fragments and
+ * http, https or mailto URLs. A character reference before the first path separator
+ * could spell out a scheme, so such targets are rejected too.
+ */
+function isSafeHref(href: string): boolean {
+  // Browsers ignore whitespace and control characters inside a scheme
+  const prefix = href.replace(/[\s\p{Cc}]/gu, '').split(/[/?#]/, 1)[0];
+  if (prefix.includes('&')) return false;
+  const colon = prefix.indexOf(':');
+  return colon === -1 || SAFE_LINK_PROTOCOLS.includes(prefix.slice(0, colon + 1).toLowerCase());
+}
+
+/**
+ * Markdown renderer for report text, which comes from the model and the web: raw HTML
+ * is shown as text, and links with other protocols (e.g. javascript:) lose their target.
+ */
+const reportMarked = new Marked({
+  renderer: {
+    html({ text }): string {
+      return escapeHtml(text);
+    },
+    link(token): string | false {
+      return isSafeHref(token.href) ? false : this.parser.parseInline(token.tokens);
+    },
+    image(token): string | false {
+      return isSafeHref(token.href) ? false : escapeHtml(token.text);
+    },
+  },
+});
+
+/** Stands in for citation markup while the body is rendered, so raw HTML can be escaped */
+const citationPlaceholder = (id: number): string => `\uE000${id}\uE001`;
+
+export function buildStructuredReport(outputs: InteractionOutput[]): StructuredReport {
+  const sources = extractCitations(outputs);
+  const sections = splitSections(reportBody(outputs, sources, (id) => `[${id}]`));
+  const title = sections.find((section) => section.level === 1)?.heading ?? DEFAULT_TITLE;
+  return { title, sections, sources };
+}
+
+const HTML_STYLES = `
+  body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; line-height: 1.6; max-width: 50rem; margin: 2rem auto; padding: 0 1rem; color: #1f2328; }
+  h1, h2, h3 { line-height: 1.25; }
+  table { border-collapse: collapse; margin: 1rem 0; }
+  th, td { border: 1px solid #d0d7de; padding: 0.4rem 0.8rem; }
+  pre { background: #f6f8fa; padding: 1rem; overflow-x: auto; }
+  sup.citation a { text-decoration: none; color: #0969da; font-size: 0.75em; }
+  ol.sources { font-size: 0.9em; word-break: break-all; }
+  ol.sources li:target { background: #fff8c5; }
+`;
+
+/**
+ * Renders a self-contained HTML document with linked, numbered citations.
+ */
+export function renderHtml(outputs: InteractionOutput[], bibliography: string[] = []): string {
+  const report = buildStructuredReport(outputs);
+  const body = reportBody(outputs, report.sources, citationPlaceholder);
+
+  let html = reportMarked
+    .parse(body, { async: false })
+    .replace(/\uE000(\d+)\uE001/g, (_match, id: string) => `<sup class="citation"><a href="#source-${id}">[${id}]</a></sup>`);
+  if (report.sources.length > 0) {
+    const items = report.sources
+      .map(({ id, source, title }) => {
+        const label = escapeHtml(title ?? source);
+        const content = isUrl(source) ? `<a href="${escapeHtml(source)}">${label}</a>` : label;
+        return `<li id="source-${id}">${content}</li>`;
+      })
+      .join('\n');
+    html += `<h2>Sources</h2>\n<ol class="sources">\n${items}\n</ol>\n`;
+  }
+  if (bibliography.length > 0) {
+    // Entries embed web page titles and URLs; marked escapes & itself, so only markup is escaped here
+    const entries = bibliography
+      .map((entry) => `<li>${reportMarked.parseInline(entry.replace(/[<>"]/g, escapeHtml), { async: false })}</li>`)
+      .join('\n');
+    html += `<h2>References</h2>\n<ul class="references">\n${entries}\n</ul>\n`;
+  }
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(report.title)}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+${html}</body>
+</html>
+`;
+}
+
+/**
+ * Strips markdown syntax, keeping numbered citation markers and a sources list.
+ */
+export function renderPlainText(outputs: InteractionOutput[], bibliography: string[] = []): string {
+  const sources = extractCitations(outputs);
+  let text = reportBody(outputs, sources, (id) => `[${id}]`)
+    .replace(/^[ \t]*(```|~~~).*$/gm, '')
+    .replace(/^#{1,6}[ \t]+(.*?)[ \t]*#*[ \t]*$/gm, (_match, heading: string) => heading.toUpperCase())
+    .replace(/!\[([^\]]*)\]\(([^)]+)\)/g, '$1 ($2)')
+    .replace(/\[([^\]]+)\]\(([^)]+)\)/g, '$1 ($2)')
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')
+    .replace(/(^|[^*\w])[*_]([^*_\n]+)[*_]/g, '$1$2')
+    .replace(/`([^`]+)`/g, '$1')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+  if (sources.length > 0) {
+    text += '\n\nSOURCES\n' + sources.map(({ id, source }) => `[${id}] ${source}`).join('\n');
+  }
+  if (bibliography.length > 0) {
+    text += '\n\nREFERENCES\n' + bibliography.map((entry) => entry.replace(/\*([^*]+)\*/g, '$1')).join('\n');
+  }
+  return text + '\n';
+}
+
+/**
+ * Renders research outputs in any supported export format.
+ * Markdown output is delegated to the shared ReportGenerator.
+ */
+export class ReportExporter {
+  constructor(private readonly markdownGenerator: ReportGenerator) {}
+
+  export(outputs: InteractionOutput[], format: ReportFormat, options: ExportOptions = {}): string {
+    const style = options.bibliography;
+    const bibliography =
+      style === 'numbered' || style === 'apa'
+        ? formatBibliographyEntries(extractCitations(outputs), style)
+        : [];
+
+    switch (format) {
+      case 'markdown': {
+        const markdown = this.markdownGenerator.generateMarkdown(outputs);
+        if (bibliography.length === 0) return markdown;
+        const list = bibliography.map((entry) => `- ${entry}`).join('\n');
+        return `${markdown.trimEnd()}\n\n## References\n\n${list}\n`;
+      }
+      case 'html':
+        return renderHtml(outputs, bibliography);
+      case 'json': {
+        const report = buildStructuredReport(outputs);
+        if (bibliography.length > 0) report.bibliography = bibliography;
+        return JSON.stringify(report, null, 2) + '\n';
+      }
+      case 'text':
+        return renderPlainText(outputs, bibliography);
+    }
+  }
+}
@@ -0,0 +1,127 @@
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import type { Interaction } from '@allenhutchison/gemini-utils';
+import {
+  ResearchProgressReporter,
+  ToolHandlerExtra,
+  extractThoughtSummaries,
+  formatElapsed,
+} from './ResearchProgressReporter';
+
+function makeExtra(progressToken?: string | number): {
+  extra: ToolHandlerExtra;
+  sendNotification: jest.Mock<(notification: unknown) => Promise<void>>;
+} {
+  const sendNotification = jest.fn<(notification: unknown) => Promise<void>>().mockResolvedValue(undefined);
+  const extra = {
+    signal: new AbortController().signal,
+    requestId: 1,
+    _meta: progressToken === undefined ? undefined : { progressToken },
+    sendNotification,
+    sendRequest: jest.fn(),
+  } as unknown as ToolHandlerExtra;
+  return { extra, sendNotification };
+}
+
+function thought(text: string): NonNullable<Interaction['outputs']>[number] {
+  return { type: 'thought', summary: [{ type: 'text', text }] };
+}
+
+describe('extractThoughtSummaries', () => {
+  it('should collect thought summary text and ignore other outputs', () => {
+    const outputs: Interaction['outputs'] = [
+      thought('Searching for sources'),
+      { type: 'text', text: 'Report body' },
+      { type: 'thought', summary: [{ type: 'text', text: 'Comparing findings' }, { type: 'text' }] },
+      { type: 'thought' },
+    ];
+
+    expect(extractThoughtSummaries(outputs)).toEqual(['Searching for sources', 'Comparing findings']);
+  });
+
+  it('should return an empty list when there are no outputs', () => {
+    expect(extractThoughtSummaries(undefined)).toEqual([]);
+  });
+});
+
+describe('formatElapsed', () => {
+  it('should format seconds and minutes', () => {
+    expect(formatElapsed(9_400)).toBe('9s');
+    expect(formatElapsed(245_000)).toBe('4m 05s');
+  });
+});
+
+describe('ResearchProgressReporter', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should not send notifications without a progress token', async () => {
+    const { extra, sendNotification } = makeExtra();
+    const reporter = new ResearchProgressReporter(extra, 60_000);
+
+    await reporter.report({ id: 'r-1', status: 'in_progress' });
+
+    expect(sendNotification).not.toHaveBeenCalled();
+  });
+
+  it('should report elapsed time, status and only new thought summaries', async () => {
+    const { extra, sendNotification } = makeExtra('token-1');
+    const reporter = new ResearchProgressReporter(extra, 1_200_000);
+
+    jest.advanceTimersByTime(5_000);
+    await reporter.report({ id: 'r-1', status: 'in_progress', outputs: [thought('Planning')] });
+    jest.advanceTimersByTime(65_000);
+    await reporter.report({
+      id: 'r-1',
+      status: 'in_progress',
+      outputs: [thought('Planning'), thought('Reading sources')],
+    });
+
+    expect(sendNotification).toHaveBeenNthCalledWith(1, {
+      method: 'notifications/progress',
+      params: {
+        progressToken: 'token-1',
+        progress: 5,
+        total: 1200,
+        message: 'Research in_progress (5s elapsed)\nPlanning',
+      },
+    });
+    expect(sendNotification).toHaveBeenNthCalledWith(2, {
+      method: 'notifications/progress',
+      params: {
+        progressToken: 'token-1',
+        progress: 70,
+        total: 1200,
+        message: 'Research in_progress (1m 10s elapsed)\nReading sources',
+      },
+    });
+  });
+
+  it('should keep progress strictly increasing', async () => {
+    const { extra, sendNotification } = makeExtra(7);
+    const reporter = new ResearchProgressReporter(extra, 60_000);
+
+    await reporter.report({ id: 'r-1', status: 'in_progress' });
+    await reporter.report({ id: 'r-1', status: 'in_progress' });
+
+    const progressValues = sendNotification.mock.calls.map(
+      ([notification]) => (notification as { params: { progress: number } }).params.progress
+    );
+    expect(progressValues).toEqual([0, 1]);
+  });
+
+  it('should swallow notification failures', async () => {
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const { extra, sendNotification } = makeExtra('token-1');
+    sendNotification.mockRejectedValue(new Error('Connection closed'));
+    const reporter = new ResearchProgressReporter(extra, 60_000);
+
+    await expect(reporter.report({ id: 'r-1', status: 'in_progress' })).resolves.toBeUndefined();
+    expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining('Connection closed'));
+    errorSpy.mockRestore();
+  });
+});
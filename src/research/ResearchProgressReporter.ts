@@ -0,0 +1,90 @@
+import type { Interaction } from '@allenhutchison/gemini-utils';
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import type { ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * Extra request context passed by the MCP server to tool handlers.
+ */
+export type ToolHandlerExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+/**
+ * Collects the text of all thought summaries exposed in an interaction's outputs.
+ */
+export function extractThoughtSummaries(outputs: Interaction['outputs']): string[] {
+  const summaries: string[] = [];
+  for (const output of outputs ?? []) {
+    if (output.type !== 'thought' || !output.summary) continue;
+    for (const part of output.summary) {
+      if (part.type === 'text' && part.text) {
+        summaries.push(part.text);
+      }
+    }
+  }
+  return summaries;
+}
+
+/**
+ * Formats a duration as e.g. "4m 05s".
+ */
+export function formatElapsed(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return minutes > 0 ? `${minutes}m ${String(seconds).padStart(2, '0')}s` : `${seconds}s`;
+}
+
+/**
+ * Sends MCP progress notifications for a long-running research request.
+ * Does nothing if the client did not supply a progressToken with the request.
+ */
+export class ResearchProgressReporter {
+  private readonly startTime = Date.now();
+  private reportedThoughts = 0;
+  private lastProgress = -1;
+
+  constructor(
+    private readonly extra: ToolHandlerExtra,
+    private readonly timeoutMs: number
+  ) {}
+
+  /**
+   * Reports the elapsed time, current status and any thought summaries that appeared
+   * since the previous report.
+   */
+  async report(interaction: Interaction): Promise<void> {
+    const progressToken = this.extra._meta?.progressToken;
+    if (progressToken === undefined) {
+      return;
+    }
+
+    const thoughts = extractThoughtSummaries(interaction.outputs);
+    const newThoughts = thoughts.slice(this.reportedThoughts);
+    this.reportedThoughts = thoughts.length;
+
+    const elapsedMs = Date.now() - this.startTime;
+    let message = `Research ${interaction.status} (${formatElapsed(elapsedMs)} elapsed)`;
+    if (newThoughts.length > 0) {
+      message += `\n${newThoughts.join('\n')}`;
+    }
+
+    // Progress must strictly increase between notifications
+    const progress = Math.max(Math.floor(elapsedMs / 1000), this.lastProgress + 1);
+    this.lastProgress = progress;
+
+    try {
+      await this.extra.sendNotification({
+        method: 'notifications/progress',
+        params: {
+          progressToken,
+          progress,
+          total: Math.floor(this.timeoutMs / 1000),
+          message,
+        },
+      });
+    } catch (error: unknown) {
+      // Progress is best-effort; never fail the research because the client went away
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error(`[research_perform] Failed to send progress notification: ${errorMessage}`);
+    }
+  }
+}
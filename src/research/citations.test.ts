@@ -0,0 +1,120 @@
+import { describe, it, expect } from '@jest/globals';
+import type { Interaction } from '@allenhutchison/gemini-utils';
+import { citationKey, extractCitations, formatBibliographyEntries, formatBibtex, Citation } from './citations';
+
+type InteractionOutput = NonNullable<Interaction['outputs']>[number];
+
+const outputs: InteractionOutput[] = [
+  {
+    type: 'google_search_result',
+    result: [
+      { url: 'https://www.example.com/battery', title: 'Battery Outlook 2025' },
+      { url: 'https://other.test/uncited', title: 'Never Cited' },
+    ],
+  },
+  { type: 'url_context_result', result: [{ url: 'https://docs.test/spec', status: 'success' }] },
+  {
+    type: 'file_search_result',
+    result: [{ title: 'design-v2.md', file_search_store: 'fileSearchStores/abc', text: 'chunk' }],
+  },
+  {
+    type: 'text',
+    text: 'Findings...',
+    annotations: [
+      { source: 'https://www.example.com/battery#section-2' },
+      { source: 'design-v2.md' },
+      { source: 'https://www.example.com/battery/' },
+      { source: 'https://docs.test/spec' },
+    ],
+  },
+  { type: 'text', text: 'More', annotations: [{ source: 'Internal memo' }, {}] },
+];
+
+describe('citationKey', () => {
+  it('should normalize URL fragments, trailing slashes and host case', () => {
+    expect(citationKey('https://WWW.Example.com/a/#top')).toBe('https://www.example.com/a');
+    expect(citationKey('  design.md ')).toBe('design.md');
+  });
+});
+
+describe('extractCitations', () => {
+  it('should return deduplicated cited sources with titles in order of appearance', () => {
+    expect(extractCitations(outputs)).toEqual([
+      {
+        id: 1,
+        source: 'https://www.example.com/battery',
+        title: 'Battery Outlook 2025',
+        type: 'web',
+        cited: true,
+      },
+      {
+        id: 2,
+        source: 'design-v2.md',
+        title: 'design-v2.md',
+        type: 'document',
+        fileSearchStore: 'fileSearchStores/abc',
+        cited: true,
+      },
+      { id: 3, source: 'https://docs.test/spec', type: 'web', cited: true },
+      { id: 4, source: 'Internal memo', type: 'document', cited: true },
+    ]);
+  });
+
+  it('should optionally include retrieved but uncited sources', () => {
+    const citations = extractCitations(outputs, { includeUncited: true });
+
+    expect(citations).toHaveLength(5);
+    expect(citations[4]).toEqual({
+      id: 5,
+      source: 'https://other.test/uncited',
+      title: 'Never Cited',
+      type: 'web',
+      cited: false,
+    });
+  });
+});
+
+describe('bibliography formatting', () => {
+  const citations: Citation[] = [
+    { id: 1, source: 'https://www.example.com/battery', title: 'Battery Outlook', type: 'web', cited: true },
+    { id: 2, source: 'design.md', title: 'design.md', type: 'document', fileSearchStore: 'fileSearchStores/abc', cited: true },
+    { id: 3, source: 'https://docs.test/spec', type: 'web', cited: true },
+  ];
+
+  it('should format numbered entries', () => {
+    expect(formatBibliographyEntries(citations, 'numbered')).toEqual([
+      '[1] Battery Outlook. https://www.example.com/battery',
+      '[2] design.md',
+      '[3] https://docs.test/spec',
+    ]);
+  });
+
+  it('should format APA-like entries', () => {
+    expect(formatBibliographyEntries(citations, 'apa')).toEqual([
+      '*Battery Outlook*. (n.d.). example.com. https://www.example.com/battery',
+      '*design.md*. (n.d.). [Document] fileSearchStores/abc.',
+      '*https://docs.test/spec*. (n.d.). docs.test. https://docs.test/spec',
+    ]);
+  });
+
+  it('should escape braces and percent signs in BibTeX URLs', () => {
+    const bibtex = formatBibtex(
+      [{ id: 1, source: 'https://x.test/{id}?q=50%25', type: 'web', cited: true }],
+      new Date('2025-06-01T12:00:00Z')
+    );
+
+    expect(bibtex).toContain('howpublished = {\\url{https://x.test/\\%7Bid\\%7D?q=50\\%25}}');
+  });
+
+  it('should format BibTeX entries with escaped fields', () => {
+    const bibtex = formatBibtex(
+      [{ id: 1, source: 'https://x.test/a_b', title: 'R&D costs', type: 'web', cited: true }, citations[1]],
+      new Date('2025-06-01T12:00:00Z')
+    );
+
+    expect(bibtex).toBe(
+      '@misc{source1,\n  title = {R\\&D costs},\n  howpublished = {\\url{https://x.test/a_b}},\n  note = {Accessed: 2025-06-01}\n}\n\n' +
+        '@misc{source2,\n  title = {design.md},\n  note = {File search store: fileSearchStores/abc}\n}\n'
+    );
+  });
+});
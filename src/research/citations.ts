@@ -0,0 +1,163 @@
+import type { Interaction } from '@allenhutchison/gemini-utils';
+
+type InteractionOutput = NonNullable<Interaction['outputs']>[number];
+
+export const BIBLIOGRAPHY_STYLES = ['none', 'numbered', 'apa', 'bibtex'] as const;
+export type BibliographyStyle = (typeof BIBLIOGRAPHY_STYLES)[number];
+
+/**
+ * A source referenced by a research interaction, deduplicated across outputs.
+ */
+export interface Citation {
+  /** 1-based number in order of first appearance */
+  id: number;
+  /** URL or document identifier as reported by the API */
+  source: string;
+  title?: string;
+  type: 'web' | 'document';
+  /** File search store the document came from, for document sources */
+  fileSearchStore?: string;
+  /** False for sources the agent retrieved but never cited in the report text */
+  cited: boolean;
+}
+
+function isUrl(source: string): boolean {
+  return /^https?:\/\//i.test(source);
+}
+
+/**
+ * Normalizes a source for deduplication: URLs lose their fragment and trailing slash
+ * and get a lowercase host; other identifiers are trimmed.
+ */
+export function citationKey(source: string): string {
+  const trimmed = source.trim();
+  if (!isUrl(trimmed)) return trimmed;
+  try {
+    const url = new URL(trimmed);
+    url.hash = '';
+    return url.toString().replace(/\/$/, '');
+  } catch (_error) {
+    return trimmed;
+  }
+}
+
+/**
+ * Walks an interaction's outputs and returns its sources. Annotation sources are cited;
+ * search, URL context and file search results supply titles and, optionally, the
+ * sources that were retrieved but not cited.
+ */
+export function extractCitations(
+  outputs: InteractionOutput[],
+  options: { includeUncited?: boolean } = {}
+): Citation[] {
+  const retrieved = new Map<string, Omit<Citation, 'id' | 'cited'>>();
+  const remember = (source: string, details: Omit<Citation, 'id' | 'cited' | 'source'>): void => {
+    const key = citationKey(source);
+    const existing = retrieved.get(key);
+    retrieved.set(key, { source, ...existing, ...details, title: existing?.title ?? details.title });
+  };
+
+  for (const output of outputs) {
+    if (output.type === 'google_search_result') {
+      for (const result of output.result ?? []) {
+        if (result.url) remember(result.url, { title: result.title, type: 'web' });
+      }
+    } else if (output.type === 'url_context_result') {
+      for (const result of output.result ?? []) {
+        if (result.url && result.status !== 'error') remember(result.url, { type: 'web' });
+      }
+    } else if (output.type === 'file_search_result') {
+      for (const result of output.result ?? []) {
+        if (result.title) {
+          remember(result.title, { title: result.title, type: 'document', fileSearchStore: result.file_search_store });
+        }
+      }
+    }
+  }
+
+  const citations = new Map<string, Citation>();
+  const add = (key: string, details: Omit<Citation, 'id' | 'cited'>, cited: boolean): void => {
+    if (citations.has(key)) return;
+    citations.set(key, { id: citations.size + 1, ...details, cited });
+  };
+
+  for (const output of outputs) {
+    if (output.type !== 'text') continue;
+    for (const annotation of output.annotations ?? []) {
+      if (!annotation.source) continue;
+      const key = citationKey(annotation.source);
+      const details = retrieved.get(key) ?? {
+        source: annotation.source,
+        type: isUrl(annotation.source) ? ('web' as const) : ('document' as const),
+      };
+      add(key, details, true);
+    }
+  }
+
+  if (options.includeUncited) {
+    for (const [key, details] of retrieved) {
+      add(key, details, false);
+    }
+  }
+
+  return [...citations.values()];
+}
+
+function hostname(source: string): string | undefined {
+  try {
+    return new URL(source).hostname.replace(/^www\./, '');
+  } catch (_error) {
+    return undefined;
+  }
+}
+
+/**
+ * Formats one markdown bibliography entry per citation in the given style.
+ */
+export function formatBibliographyEntries(citations: Citation[], style: 'numbered' | 'apa'): string[] {
+  return citations.map((citation) => {
+    const title = citation.title ?? citation.source;
+    if (style === 'numbered') {
+      return citation.type === 'web' && citation.title
+        ? `[${citation.id}] ${citation.title}. ${citation.source}`
+        : `[${citation.id}] ${citation.source}`;
+    }
+    if (citation.type === 'web') {
+      const site = hostname(citation.source);
+      return `*${title}*. (n.d.).${site ? ` ${site}.` : ''} ${citation.source}`;
+    }
+    const store = citation.fileSearchStore ? ` ${citation.fileSearchStore}` : '';
+    return `*${title}*. (n.d.). [Document]${store}.`;
+  });
+}
+
+function escapeBibtex(value: string): string {
+  return value.replace(/([{}%&$#_])/g, '\\$1');
+}
+
+/**
+ * Makes a URL safe inside \url{}: braces would unbalance the field, so they are
+ * percent-encoded, and % is escaped so LaTeX does not read it as a comment.
+ */
+function escapeBibtexUrl(url: string): string {
+  return url.replace(/[{}%]/g, (char) => (char === '%' ? '\\%' : `\\${encodeURIComponent(char)}`));
+}
+
+/**
+ * Renders citations as BibTeX @misc entries keyed `source1`, `source2`, ...
+ */
+export function formatBibtex(citations: Citation[], accessed: Date = new Date()): string {
+  const accessedDate = accessed.toISOString().slice(0, 10);
+  return citations
+    .map((citation) => {
+      const fields = [`  title = {${escapeBibtex(citation.title ?? citation.source)}}`];
+      if (citation.type === 'web') {
+        fields.push(`  howpublished = {\\url{${escapeBibtexUrl(citation.source)}}}`);
+        fields.push(`  note = {Accessed: ${accessedDate}}`);
+      } else if (citation.fileSearchStore) {
+        fields.push(`  note = {File search store: ${escapeBibtex(citation.fileSearchStore)}}`);
+      }
+      return `@misc{source${citation.id},\n${fields.join(',\n')}\n}`;
+    })
+    .join('\n\n') + '\n';
+}
@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  BUILT_IN_REPORT_TEMPLATES,
+  ReportTemplateError,
+  findReportTemplate,
+  formatReportTemplate,
+  loadReportTemplates,
+} from './reportTemplates';
+
+describe('reportTemplates', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'report-templates-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  describe('loadReportTemplates', () => {
+    it('should return the built-in templates when the directory does not exist', () => {
+      const { templates, invalidFiles } = loadReportTemplates(path.join(directory, 'missing'));
+
+      expect(templates.map((template) => template.name)).toEqual(BUILT_IN_REPORT_TEMPLATES.map((template) => template.name));
+      expect(templates.every((template) => template.source === 'built-in')).toBe(true);
+      expect(invalidFiles).toEqual([]);
+    });
+
+    it('should add workspace templates, named after their file unless they set a name', () => {
+      fs.writeFileSync(path.join(directory, 'board-update.json'), JSON.stringify({ sections: ['Headline'] }));
+      fs.writeFileSync(path.join(directory, 'brief.json'), JSON.stringify({ name: 'Executive Brief', sections: ['Summary'] }));
+      fs.writeFileSync(path.join(directory, 'notes.txt'), 'not a template');
+
+      const loaded = loadReportTemplates(directory);
+
+      expect(loaded.templates).toHaveLength(BUILT_IN_REPORT_TEMPLATES.length + 1);
+      expect(findReportTemplate(loaded, 'board-update')).toEqual({
+        name: 'board-update',
+        sections: ['Headline'],
+        source: path.join(directory, 'board-update.json'),
+      });
+      expect(findReportTemplate(loaded, 'Executive Brief').sections).toEqual(['Summary']);
+    });
+
+    it('should skip invalid template files and report them', () => {
+      fs.writeFileSync(path.join(directory, 'broken.json'), '{');
+      fs.writeFileSync(path.join(directory, 'empty.json'), JSON.stringify({ sections: [] }));
+      fs.writeFileSync(path.join(directory, 'memo.json'), JSON.stringify({ sections: ['Ask'] }));
+
+      const loaded = loadReportTemplates(directory);
+
+      expect(loaded.invalidFiles).toEqual([
+        { path: path.join(directory, 'broken.json'), error: expect.stringMatching(/^Could not read .*broken\.json/) },
+        { path: path.join(directory, 'empty.json'), error: expect.stringMatching(/empty\.json is not a valid report template/) },
+      ]);
+      expect(findReportTemplate(loaded, 'Executive Brief').source).toBe('built-in');
+      expect(findReportTemplate(loaded, 'memo').sections).toEqual(['Ask']);
+      expect(() => findReportTemplate(loaded, 'broken')).toThrow(ReportTemplateError);
+      expect(() => findReportTemplate(loaded, 'broken')).toThrow(
+        `Skipped invalid template files: ${path.join(directory, 'broken.json')}, ${path.join(directory, 'empty.json')}`
+      );
+    });
+  });
+
+  describe('findReportTemplate', () => {
+    it('should match names ignoring case and surrounding space', () => {
+      expect(findReportTemplate(loadReportTemplates(directory), ' market analysis ').name).toBe('Market Analysis');
+    });
+
+    it('should list the available formats for unknown names', () => {
+      expect(() => findReportTemplate(loadReportTemplates(directory), 'Haiku')).toThrow(
+        'Unknown report format: Haiku. Available formats: Executive Brief, Technical Deep Dive, Market Analysis, Comprehensive Research Report.'
+      );
+    });
+  });
+
+  describe('formatReportTemplate', () => {
+    it('should render the sections and leave out unset requirements', () => {
+      expect(formatReportTemplate({ name: 'Memo', sections: ['Context', 'Ask'], citations: 'Link sources inline' })).toBe(
+        '[Report Format: Memo]\nSections:\n1. Context\n2. Ask\nCitations: Link sources inline'
+      );
+    });
+  });
+});
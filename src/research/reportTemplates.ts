@@ -0,0 +1,155 @@
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+
+/** Workspace directory holding user-defined templates, one JSON file each */
+export const REPORT_TEMPLATES_DIRECTORY = 'report-templates';
+
+const ReportTemplateSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().optional(),
+  sections: z.array(z.string()).min(1),
+  /** Target length, e.g. "600-1,000 words" */
+  length: z.string().optional(),
+  /** What the report must cite, and how */
+  citations: z.string().optional(),
+});
+
+export type ReportTemplate = z.infer<typeof ReportTemplateSchema>;
+
+/**
+ * A template available to report_format, with the file it was loaded from.
+ */
+export interface AvailableReportTemplate extends ReportTemplate {
+  /** 'built-in', or the path of the template file */
+  source: string;
+}
+
+/**
+ * The templates report_format may name, and the template files that were skipped.
+ */
+export interface LoadedReportTemplates {
+  templates: AvailableReportTemplate[];
+  invalidFiles: Array<{ path: string; error: string }>;
+}
+
+export const BUILT_IN_REPORT_TEMPLATES: ReportTemplate[] = [
+  {
+    name: 'Executive Brief',
+    description: 'A short summary for decision makers',
+    sections: ['Executive Summary', 'Key Findings (bulleted)', 'Strategic Recommendations'],
+    length: '600-1,000 words',
+    citations: 'Cite a source for every key finding',
+  },
+  {
+    name: 'Technical Deep Dive',
+    description: 'A detailed technical assessment for engineers',
+    sections: [
+      'Architecture/Technology Overview',
+      'Comparative Analysis (data tables required)',
+      'Implementation Details / Code Snippets',
+      'Performance Metrics',
+    ],
+    length: '2,500-4,000 words',
+    citations: 'Cite primary sources such as specifications, documentation and benchmarks for technical claims and figures',
+  },
+  {
+    name: 'Market Analysis',
+    description: 'Market size, competitors and outlook',
+    sections: ['Market Overview & Trends', 'Competitor Landscape (comparison table)', 'SWOT Analysis', 'Future Outlook'],
+    length: '1,500-2,500 words',
+    citations: 'Cite a dated source for every market figure',
+  },
+  {
+    name: 'Comprehensive Research Report',
+    description: 'A thorough report covering background, perspectives and implications',
+    sections: ['Detailed Background & Context', 'Multi-perspective Analysis', 'Future Implications'],
+    length: '4,000 words or more',
+    citations: 'Cite extensively, attributing every claim to a source',
+  },
+];
+
+/**
+ * Thrown for invalid template files and report formats that name no valid template.
+ */
+export class ReportTemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReportTemplateError';
+  }
+}
+
+function readTemplate(filePath: string): ReportTemplate {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new ReportTemplateError(`Could not read ${filePath}: ${message}`);
+  }
+  // The name defaults to the file name
+  const named = parsed && typeof parsed === 'object' && !Array.isArray(parsed)
+    ? { name: path.basename(filePath, '.json'), ...parsed }
+    : parsed;
+  const result = ReportTemplateSchema.safeParse(named);
+  if (!result.success) {
+    throw new ReportTemplateError(`${filePath} is not a valid report template: ${z.prettifyError(result.error)}`);
+  }
+  return result.data;
+}
+
+/**
+ * Returns the built-in templates followed by the `*.json` templates in directory.
+ * A user template replaces a built-in one of the same name. Files that cannot be
+ * read or are not valid templates are skipped and listed in invalidFiles.
+ */
+export function loadReportTemplates(directory: string = REPORT_TEMPLATES_DIRECTORY): LoadedReportTemplates {
+  const templates = new Map<string, AvailableReportTemplate>();
+  const invalidFiles: LoadedReportTemplates['invalidFiles'] = [];
+  for (const template of BUILT_IN_REPORT_TEMPLATES) {
+    templates.set(template.name.toLowerCase(), { ...template, source: 'built-in' });
+  }
+  if (fs.existsSync(directory)) {
+    const files = fs.readdirSync(directory).filter((file) => file.endsWith('.json')).sort();
+    for (const file of files) {
+      const filePath = path.join(directory, file);
+      try {
+        const template = readTemplate(filePath);
+        templates.set(template.name.toLowerCase(), { ...template, source: filePath });
+      } catch (error: unknown) {
+        invalidFiles.push({ path: filePath, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+  }
+  return { templates: [...templates.values()], invalidFiles };
+}
+
+/**
+ * Finds the valid template with the given name, ignoring case. Throws ReportTemplateError
+ * listing the available names, and any skipped files, if there is none.
+ */
+export function findReportTemplate({ templates, invalidFiles }: LoadedReportTemplates, name: string): AvailableReportTemplate {
+  const template = templates.find((candidate) => candidate.name.toLowerCase() === name.trim().toLowerCase());
+  if (!template) {
+    const available = templates.map((candidate) => candidate.name).join(', ');
+    const skipped = invalidFiles.length > 0
+      ? ` Skipped invalid template files: ${invalidFiles.map((file) => file.path).join(', ')}`
+      : '';
+    throw new ReportTemplateError(`Unknown report format: ${name}. Available formats: ${available}.${skipped}`);
+  }
+  return template;
+}
+
+/**
+ * Renders a template as the instructions prepended to a research input.
+ */
+export function formatReportTemplate(template: ReportTemplate): string {
+  const lines = [
+    `[Report Format: ${template.name}]`,
+    'Sections:',
+    ...template.sections.map((section, index) => `${index + 1}. ${section}`),
+    ...(template.length ? [`Length: ${template.length}`] : []),
+    ...(template.citations ? [`Citations: ${template.citations}`] : []),
+  ];
+  return lines.join('\n');
+}
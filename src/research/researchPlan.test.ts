@@ -0,0 +1,61 @@
+import { describe, it, expect } from '@jest/globals';
+import { ResearchPlanError, buildPlanPrompt, formatResearchPlan, parseResearchPlan } from './researchPlan';
+
+describe('buildPlanPrompt', () => {
+  it('should include the topic and report format', () => {
+    const prompt = buildPlanPrompt('Solid-state batteries', 'Executive Brief');
+
+    expect(prompt).toContain('Topic: Solid-state batteries');
+    expect(prompt).toContain('must follow this format; base the plan\'s sections on it:\nExecutive Brief');
+  });
+
+  it('should leave out the format when none is given', () => {
+    expect(buildPlanPrompt('Solid-state batteries')).not.toContain('format:');
+  });
+});
+
+describe('parseResearchPlan', () => {
+  const plan = {
+    objective: 'Assess when solid-state batteries reach mass production',
+    subQuestions: ['Which manufacturers have pilot lines?', 'What limits yields?'],
+    sourceTypes: ['Manufacturer announcements'],
+    sections: ['Summary', 'Timeline'],
+    constraints: ['2020 onwards'],
+  };
+
+  it('should parse a plan, with or without a code fence', () => {
+    expect(parseResearchPlan(JSON.stringify(plan))).toEqual(plan);
+    expect(parseResearchPlan(`\`\`\`json\n${JSON.stringify(plan)}\n\`\`\``)).toEqual(plan);
+  });
+
+  it('should default the optional lists', () => {
+    expect(parseResearchPlan(JSON.stringify({ objective: 'Goal', subQuestions: ['Why?'] }))).toEqual({
+      objective: 'Goal',
+      subQuestions: ['Why?'],
+      sourceTypes: [],
+      sections: [],
+      constraints: [],
+    });
+  });
+
+  it('should reject responses that are not a complete plan', () => {
+    expect(() => parseResearchPlan('Here is my plan: research it')).toThrow(ResearchPlanError);
+    expect(() => parseResearchPlan(JSON.stringify({ objective: 'Goal', subQuestions: [] }))).toThrow(/incomplete research plan/);
+  });
+});
+
+describe('formatResearchPlan', () => {
+  it('should render each part of the plan, skipping empty lists', () => {
+    const text = formatResearchPlan({
+      objective: 'Goal',
+      subQuestions: ['First?', 'Second?'],
+      sourceTypes: ['Papers'],
+      sections: [],
+      constraints: [],
+    });
+
+    expect(text).toBe(
+      '# Research Plan\n\n## Objective\n\nGoal\n\n## Sub-questions\n\n1. First?\n2. Second?\n\n## Sources to Prioritize\n\n- Papers'
+    );
+  });
+});
@@ -0,0 +1,71 @@
+import { z } from 'zod';
+
+/**
+ * A proposed research plan, reviewed and edited before being handed to research_start.
+ */
+export const ResearchPlanSchema = z.object({
+  objective: z.string().min(1).describe('What the research should establish, in one or two sentences'),
+  subQuestions: z.array(z.string()).min(1).describe('The questions the research must answer, in the order to investigate them'),
+  sourceTypes: z.array(z.string()).default([]).describe('Kinds of sources to prioritize, e.g. peer-reviewed papers, vendor documentation, market filings'),
+  sections: z.array(z.string()).default([]).describe('Sections the final report should have, in order'),
+  constraints: z.array(z.string()).default([]).describe('Scope limits such as time period, regions or technologies to include or exclude'),
+});
+
+export type ResearchPlan = z.infer<typeof ResearchPlanSchema>;
+
+/**
+ * Thrown when a model's response is not a usable research plan.
+ */
+export class ResearchPlanError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ResearchPlanError';
+  }
+}
+
+/**
+ * Builds the prompt asking a model to propose a plan for researching a topic.
+ */
+export function buildPlanPrompt(topic: string, reportFormat?: string): string {
+  const format = reportFormat ? `\nThe final report must follow this format; base the plan's sections on it:\n${reportFormat}\n` : '';
+  return `You are planning a deep research investigation. Do not research the topic yet; propose a plan for it.
+
+Topic: ${topic}
+${format}
+Break the topic into the sub-questions that need answering, name the kinds of sources best suited to answer them, list the sections the final report should have, and note any constraints on scope that the topic implies. Respond with a JSON object only.`;
+}
+
+/**
+ * Parses a model's JSON response into a plan, tolerating a surrounding code fence.
+ */
+export function parseResearchPlan(text: string): ResearchPlan {
+  const json = text.trim().replace(/^```(?:json)?\s*([\s\S]*?)\s*```$/, '$1');
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new ResearchPlanError('The model did not return a JSON research plan');
+  }
+  const result = ResearchPlanSchema.safeParse(parsed);
+  if (!result.success) {
+    throw new ResearchPlanError(`The model returned an incomplete research plan: ${z.prettifyError(result.error)}`);
+  }
+  return result.data;
+}
+
+function section(title: string, items: string[], numbered = false): string {
+  if (items.length === 0) return '';
+  const lines = items.map((item, index) => (numbered ? `${index + 1}. ${item}` : `- ${item}`));
+  return `\n\n## ${title}\n\n${lines.join('\n')}`;
+}
+
+/**
+ * Renders a plan as Markdown, both for review and as the research agent's instructions.
+ */
+export function formatResearchPlan(plan: ResearchPlan): string {
+  return `# Research Plan\n\n## Objective\n\n${plan.objective}` +
+    section('Sub-questions', plan.subQuestions, true) +
+    section('Sources to Prioritize', plan.sourceTypes) +
+    section('Report Sections', plan.sections, true) +
+    section('Constraints', plan.constraints);
+}
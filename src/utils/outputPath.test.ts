@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  OutputPathError,
+  nextAvailablePath,
+  prepareOutputPath,
+  resolveOutputPath,
+  writeFileAtomic,
+} from './outputPath';
+
+describe('outputPath', () => {
+  let tempDir: string;
+  let workspaceRoot: string;
+
+  beforeEach(() => {
+    tempDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'output-path-')));
+    workspaceRoot = path.join(tempDir, 'workspace');
+    fs.mkdirSync(workspaceRoot);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('resolveOutputPath', () => {
+    it('should resolve relative paths against the workspace root', () => {
+      expect(resolveOutputPath('reports/report.md', { workspaceRoot })).toBe(
+        path.join(workspaceRoot, 'reports', 'report.md')
+      );
+    });
+
+    it('should reject paths that escape the workspace', () => {
+      expect(() => resolveOutputPath('../outside.md', { workspaceRoot })).toThrow(OutputPathError);
+      expect(() => resolveOutputPath('/etc/passwd', { workspaceRoot })).toThrow('Refusing to write outside the workspace');
+    });
+
+    it('should allow names that start with two dots', () => {
+      expect(resolveOutputPath('..notes/report.md', { workspaceRoot })).toBe(path.join(workspaceRoot, '..notes', 'report.md'));
+      expect(resolveOutputPath('..draft.md', { workspaceRoot })).toBe(path.join(workspaceRoot, '..draft.md'));
+      expect(() => resolveOutputPath('..', { workspaceRoot })).toThrow(OutputPathError);
+    });
+
+    it('should allow configured output directories', () => {
+      const sharedDir = path.join(tempDir, 'shared-reports');
+
+      expect(resolveOutputPath(path.join(sharedDir, 'r.md'), { workspaceRoot, allowedDirectories: [sharedDir] })).toBe(
+        path.join(sharedDir, 'r.md')
+      );
+    });
+
+    it('should reject symlinks that point outside the workspace', () => {
+      const outside = path.join(tempDir, 'outside');
+      fs.mkdirSync(outside);
+      fs.symlinkSync(outside, path.join(workspaceRoot, 'link'));
+
+      expect(() => resolveOutputPath('link/report.md', { workspaceRoot })).toThrow(OutputPathError);
+    });
+
+    it('should reject directories', () => {
+      fs.mkdirSync(path.join(workspaceRoot, 'reports'));
+
+      expect(() => resolveOutputPath('reports', { workspaceRoot })).toThrow('Output path is a directory');
+    });
+  });
+
+  describe('nextAvailablePath', () => {
+    it('should return the path itself when free', () => {
+      const target = path.join(workspaceRoot, 'report.md');
+      expect(nextAvailablePath(target)).toBe(target);
+    });
+
+    it('should add a numeric suffix when the file exists', () => {
+      fs.writeFileSync(path.join(workspaceRoot, 'report.md'), 'a');
+      fs.writeFileSync(path.join(workspaceRoot, 'report-1.md'), 'b');
+
+      expect(nextAvailablePath(path.join(workspaceRoot, 'report.md'))).toBe(path.join(workspaceRoot, 'report-2.md'));
+    });
+  });
+
+  describe('prepareOutputPath', () => {
+    it('should keep an existing path only when overwriting', () => {
+      fs.writeFileSync(path.join(workspaceRoot, 'report.md'), 'old');
+
+      expect(prepareOutputPath('report.md', { workspaceRoot })).toBe(path.join(workspaceRoot, 'report-1.md'));
+      expect(prepareOutputPath('report.md', { workspaceRoot, overwrite: true })).toBe(
+        path.join(workspaceRoot, 'report.md')
+      );
+    });
+  });
+
+  describe('writeFileAtomic', () => {
+    it('should create parent directories and leave no temp files', () => {
+      const target = path.join(workspaceRoot, 'a', 'b', 'report.md');
+
+      writeFileAtomic(target, '# Report');
+
+      expect(fs.readFileSync(target, 'utf-8')).toBe('# Report');
+      expect(fs.readdirSync(path.dirname(target))).toEqual(['report.md']);
+    });
+
+    it('should replace existing content', () => {
+      const target = path.join(workspaceRoot, 'report.md');
+      fs.writeFileSync(target, 'old');
+
+      writeFileAtomic(target, 'new');
+
+      expect(fs.readFileSync(target, 'utf-8')).toBe('new');
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+
+/**
+ * Thrown when an output path is rejected, e.g. because it escapes the workspace.
+ */
+export class OutputPathError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OutputPathError';
+  }
+}
+
+export interface OutputPathOptions {
+  /** Directory that relative paths resolve against and writes are confined to (default: cwd) */
+  workspaceRoot?: string;
+  /** Additional directories outside the workspace that may be written to */
+  allowedDirectories?: string[];
+}
+
+export interface PrepareOutputOptions extends OutputPathOptions {
+  /** Replace an existing file instead of picking a suffixed name */
+  overwrite?: boolean;
+}
+
+/**
+ * Resolves symlinks in the longest existing prefix of a path, so that a link inside
+ * the workspace pointing elsewhere cannot be used to escape it.
+ */
+function realpathOfNearestExisting(target: string): string {
+  let existing = target;
+  const missing: string[] = [];
+  while (!fs.existsSync(existing)) {
+    const parent = path.dirname(existing);
+    if (parent === existing) break;
+    missing.unshift(path.basename(existing));
+    existing = parent;
+  }
+  return path.join(fs.realpathSync(existing), ...missing);
+}
+
+function isWithin(directory: string, target: string): boolean {
+  const relative = path.relative(directory, target);
+  // Compare whole segments: "..notes" is a name inside the directory, not its parent
+  return relative === '' || (relative !== '..' && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative));
+}
+
+/**
+ * Resolves a user-supplied output path and confirms it lies inside the workspace or
+ * one of the allowed directories.
+ */
+export function resolveOutputPath(filePath: string, options: OutputPathOptions = {}): string {
+  const workspaceRoot = path.resolve(options.workspaceRoot ?? process.cwd());
+  const resolved = path.resolve(workspaceRoot, filePath);
+  const real = realpathOfNearestExisting(resolved);
+
+  const roots = [workspaceRoot, ...(options.allowedDirectories ?? []).map((dir) => path.resolve(workspaceRoot, dir))];
+  if (!roots.some((root) => isWithin(realpathOfNearestExisting(root), real))) {
+    throw new OutputPathError(
+      `Refusing to write outside the workspace: ${filePath}. Allowed locations: ${roots.join(', ')}`
+    );
+  }
+  if (fs.existsSync(resolved) && fs.statSync(resolved).isDirectory()) {
+    throw new OutputPathError(`Output path is a directory: ${filePath}`);
+  }
+  return resolved;
+}
+
+/**
+ * Returns filePath if it is free, otherwise the first free `name-N.ext` variant.
+ */
+export function nextAvailablePath(filePath: string): string {
+  if (!fs.existsSync(filePath)) return filePath;
+  const { dir, name, ext } = path.parse(filePath);
+  for (let i = 1; ; i++) {
+    const candidate = path.join(dir, `${name}-${i}${ext}`);
+    if (!fs.existsSync(candidate)) return candidate;
+  }
+}
+
+/**
+ * Resolves and validates an output path, picking a suffixed name when the file
+ * already exists and overwriting is not allowed.
+ */
+export function prepareOutputPath(filePath: string, options: PrepareOutputOptions = {}): string {
+  const resolved = resolveOutputPath(filePath, options);
+  return options.overwrite ? resolved : nextAvailablePath(resolved);
+}
+
+/**
+ * Writes a file atomically: data goes to a temporary file in the target directory,
+ * which is then renamed over the destination. Parent directories are created.
+ */
+export function writeFileAtomic(filePath: string, data: string): void {
+  const directory = path.dirname(filePath);
+  fs.mkdirSync(directory, { recursive: true });
+
+  const tempPath = path.join(directory, `.${path.basename(filePath)}.${crypto.randomUUID()}.tmp`);
+  try {
+    fs.writeFileSync(tempPath, data);
+    fs.renameSync(tempPath, filePath);
+  } catch (error) {
+    fs.rmSync(tempPath, { force: true });
+    throw error;
+  }
+}
@@ -0,0 +1,221 @@
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import {
+  DEFAULT_POLLING_CONFIG,
+  PollingConfig,
+  computeBackoffDelay,
+  isRateLimitError,
+  isRetryableError,
+  pollUntil,
+  resolvePollingConfig,
+  withRetry,
+} from './polling';
+
+// Zero delays keep the polling tests fast without fake timers
+const instantConfig: PollingConfig = { minIntervalMs: 0, maxIntervalMs: 0, multiplier: 2, maxRetries: 2 };
+
+function httpError(status: number): Error {
+  return Object.assign(new Error(`Request failed with status ${status}`), { status });
+}
+
+describe('resolvePollingConfig', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    delete process.env.GEMINI_DEEP_RESEARCH_POLL_MIN_MS;
+    delete process.env.GEMINI_DEEP_RESEARCH_POLL_MAX_MS;
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('should return defaults without overrides', () => {
+    expect(resolvePollingConfig()).toEqual(DEFAULT_POLLING_CONFIG);
+  });
+
+  it('should apply workspace overrides', () => {
+    expect(resolvePollingConfig({ minIntervalMs: 1000, maxRetries: 1 })).toEqual({
+      ...DEFAULT_POLLING_CONFIG,
+      minIntervalMs: 1000,
+      maxRetries: 1,
+    });
+  });
+
+  it('should let environment variables take precedence and ignore invalid values', () => {
+    process.env.GEMINI_DEEP_RESEARCH_POLL_MIN_MS = '2000';
+    process.env.GEMINI_DEEP_RESEARCH_POLL_MAX_MS = 'soon';
+
+    const config = resolvePollingConfig({ minIntervalMs: 1000, maxIntervalMs: 8000 });
+
+    expect(config.minIntervalMs).toBe(2000);
+    expect(config.maxIntervalMs).toBe(8000);
+  });
+
+  it('should never let the maximum drop below the minimum', () => {
+    expect(resolvePollingConfig({ minIntervalMs: 10000, maxIntervalMs: 1000 }).maxIntervalMs).toBe(10000);
+  });
+});
+
+describe('isRetryableError', () => {
+  it('should retry rate limits and server errors', () => {
+    expect(isRetryableError(httpError(429))).toBe(true);
+    expect(isRetryableError(httpError(503))).toBe(true);
+  });
+
+  it('should treat client errors as fatal', () => {
+    expect(isRetryableError(httpError(400))).toBe(false);
+    expect(isRetryableError(httpError(404))).toBe(false);
+  });
+
+  it('should retry network failures', () => {
+    expect(isRetryableError(Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }))).toBe(true);
+    expect(isRetryableError(new TypeError('fetch failed', { cause: { code: 'ETIMEDOUT' } }))).toBe(true);
+    expect(isRetryableError(Object.assign(new Error('Connection error.'), { name: 'APIConnectionError' }))).toBe(true);
+  });
+
+  it('should recognise quota errors reported only in the message', () => {
+    expect(isRetryableError(new Error('{"error":{"status":"RESOURCE_EXHAUSTED"}}'))).toBe(true);
+  });
+
+  it('should judge wrapped errors by their cause', () => {
+    expect(isRetryableError(new Error('Failed to upload a.md', { cause: httpError(503) }))).toBe(true);
+    expect(isRetryableError(new Error('Failed to upload a.md', { cause: httpError(400) }))).toBe(false);
+  });
+
+  it('should treat other errors as fatal', () => {
+    expect(isRetryableError(new Error('Invalid argument'))).toBe(false);
+    expect(isRetryableError('boom')).toBe(false);
+  });
+});
+
+describe('isRateLimitError', () => {
+  it('should recognise 429s and quota errors, including wrapped ones', () => {
+    expect(isRateLimitError(httpError(429))).toBe(true);
+    expect(isRateLimitError(new Error('{"error":{"status":"RESOURCE_EXHAUSTED"}}'))).toBe(true);
+    expect(isRateLimitError(new Error('Failed to upload a.md', { cause: httpError(429) }))).toBe(true);
+    expect(isRateLimitError(httpError(503))).toBe(false);
+  });
+});
+
+describe('computeBackoffDelay', () => {
+  const config: PollingConfig = { minIntervalMs: 1000, maxIntervalMs: 5000, multiplier: 2, maxRetries: 3 };
+
+  it('should grow exponentially with jitter between half and the full delay', () => {
+    expect(computeBackoffDelay(2, config, () => 0)).toBe(2000);
+    expect(computeBackoffDelay(2, config, () => 1)).toBe(4000);
+  });
+
+  it('should never wait less than the minimum interval', () => {
+    expect(computeBackoffDelay(0, config, () => 0)).toBe(1000);
+    expect(computeBackoffDelay(0, config, () => 1)).toBe(1000);
+    expect(computeBackoffDelay(1, config, () => 0)).toBe(1000);
+    expect(computeBackoffDelay(1, config, () => 1)).toBe(2000);
+  });
+
+  it('should cap the delay at the maximum interval', () => {
+    expect(computeBackoffDelay(10, config, () => 1)).toBe(5000);
+  });
+});
+
+describe('withRetry', () => {
+  it('should retry retryable errors until success', async () => {
+    const fn = jest
+      .fn<() => Promise<string>>()
+      .mockRejectedValueOnce(httpError(429))
+      .mockResolvedValue('ok');
+    const onRetry = jest.fn();
+
+    await expect(withRetry(fn, { config: instantConfig, onRetry })).resolves.toBe('ok');
+    expect(fn).toHaveBeenCalledTimes(2);
+    expect(onRetry).toHaveBeenCalledWith(expect.any(Error), 1, 0);
+  });
+
+  it('should rethrow fatal errors immediately', async () => {
+    const fn = jest.fn<() => Promise<string>>().mockRejectedValue(httpError(403));
+
+    await expect(withRetry(fn, { config: instantConfig })).rejects.toThrow('status 403');
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('should give up after maxRetries', async () => {
+    const fn = jest.fn<() => Promise<string>>().mockRejectedValue(httpError(503));
+
+    await expect(withRetry(fn, { config: instantConfig })).rejects.toThrow('status 503');
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe('pollUntil', () => {
+  it('should poll until the value is done', async () => {
+    const fetch = jest
+      .fn<() => Promise<string>>()
+      .mockResolvedValueOnce('in_progress')
+      .mockResolvedValueOnce('in_progress')
+      .mockResolvedValue('completed');
+    const onPoll = jest.fn();
+
+    const result = await pollUntil(fetch, {
+      isDone: (value) => value === 'completed',
+      timeoutMs: 10000,
+      config: instantConfig,
+      onPoll,
+    });
+
+    expect(result).toEqual({ status: 'done', value: 'completed' });
+    expect(onPoll).toHaveBeenCalledTimes(3);
+  });
+
+  it('should survive transient errors between polls', async () => {
+    const fetch = jest
+      .fn<() => Promise<string>>()
+      .mockRejectedValueOnce(httpError(429))
+      .mockRejectedValueOnce(Object.assign(new Error('reset'), { code: 'ECONNRESET' }))
+      .mockResolvedValue('completed');
+
+    const result = await pollUntil(fetch, {
+      isDone: (value) => value === 'completed',
+      timeoutMs: 10000,
+      config: instantConfig,
+    });
+
+    expect(result).toEqual({ status: 'done', value: 'completed' });
+  });
+
+  it('should rethrow fatal errors', async () => {
+    const fetch = jest.fn<() => Promise<string>>().mockRejectedValue(httpError(401));
+
+    await expect(
+      pollUntil(fetch, { isDone: () => true, timeoutMs: 10000, config: instantConfig })
+    ).rejects.toThrow('status 401');
+  });
+
+  it('should time out with the last value', async () => {
+    const fetch = jest.fn<() => Promise<string>>().mockResolvedValue('in_progress');
+
+    const result = await pollUntil(fetch, {
+      isDone: () => false,
+      timeoutMs: 20,
+      config: { ...instantConfig, minIntervalMs: 10, maxIntervalMs: 10 },
+    });
+
+    expect(result).toEqual({ status: 'timeout', value: 'in_progress' });
+  });
+
+  it('should stop waiting when the signal aborts', async () => {
+    const controller = new AbortController();
+    const fetch = jest.fn<() => Promise<string>>().mockResolvedValue('in_progress');
+
+    const resultPromise = pollUntil(fetch, {
+      isDone: () => false,
+      timeoutMs: 60000,
+      signal: controller.signal,
+      config: { ...instantConfig, minIntervalMs: 30000, maxIntervalMs: 30000 },
+    });
+    await new Promise((resolve) => setImmediate(resolve));
+    controller.abort();
+
+    await expect(resultPromise).resolves.toEqual({ status: 'aborted', value: 'in_progress' });
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+});
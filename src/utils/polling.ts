@@ -0,0 +1,187 @@
+import { setTimeout } from 'timers/promises';
+
+/**
+ * Interval and retry settings shared by tools that wait on remote work.
+ */
+export interface PollingConfig {
+  /** First (and minimum) delay between polls in milliseconds */
+  minIntervalMs: number;
+  /** Upper bound for the delay between polls in milliseconds */
+  maxIntervalMs: number;
+  /** Growth factor applied to the delay after each poll or retry */
+  multiplier: number;
+  /** Consecutive retryable errors tolerated before giving up */
+  maxRetries: number;
+}
+
+export const DEFAULT_POLLING_CONFIG: PollingConfig = {
+  minIntervalMs: 5000,
+  maxIntervalMs: 30000,
+  multiplier: 1.5,
+  maxRetries: 5,
+};
+
+const RETRYABLE_STATUS_CODES = new Set([408, 429, 500, 502, 503, 504]);
+const RETRYABLE_ERROR_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ETIMEDOUT',
+  'EAI_AGAIN',
+  'EPIPE',
+  'UND_ERR_SOCKET',
+  'UND_ERR_CONNECT_TIMEOUT',
+]);
+const RETRYABLE_ERROR_NAMES = new Set(['APIConnectionError', 'APIConnectionTimeoutError']);
+
+function parseIntervalEnv(name: string): number | undefined {
+  const value = process.env[name];
+  if (value === undefined || value === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+}
+
+/**
+ * Builds the effective polling config. Environment variables take precedence over
+ * workspace overrides, which take precedence over the defaults.
+ */
+export function resolvePollingConfig(overrides: Partial<PollingConfig> = {}): PollingConfig {
+  const config: PollingConfig = { ...DEFAULT_POLLING_CONFIG, ...overrides };
+  config.minIntervalMs = parseIntervalEnv('GEMINI_DEEP_RESEARCH_POLL_MIN_MS') ?? config.minIntervalMs;
+  config.maxIntervalMs = parseIntervalEnv('GEMINI_DEEP_RESEARCH_POLL_MAX_MS') ?? config.maxIntervalMs;
+  config.maxIntervalMs = Math.max(config.maxIntervalMs, config.minIntervalMs);
+  return config;
+}
+
+/**
+ * Returns true for errors worth retrying: rate limiting, server-side failures and
+ * network blips. Everything else (bad requests, auth, not found) is fatal. Wrapped
+ * errors (such as gemini-utils' FileUploadError) are judged by their cause.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (!(error instanceof Error)) return false;
+
+  const status = (error as { status?: unknown }).status;
+  if (typeof status === 'number') {
+    return RETRYABLE_STATUS_CODES.has(status);
+  }
+
+  const code = (error as { code?: unknown }).code ?? (error.cause as { code?: unknown } | undefined)?.code;
+  if (typeof code === 'string' && RETRYABLE_ERROR_CODES.has(code)) return true;
+
+  if (RETRYABLE_ERROR_NAMES.has(error.name)) return true;
+  if (error instanceof TypeError && error.message === 'fetch failed') return true;
+
+  if (/RESOURCE_EXHAUSTED|UNAVAILABLE|rate limit/i.test(error.message)) return true;
+  return error.cause instanceof Error && isRetryableError(error.cause);
+}
+
+/**
+ * Returns true if the server rejected the request for exceeding a rate limit or quota.
+ */
+export function isRateLimitError(error: unknown): boolean {
+  if (!(error instanceof Error)) return false;
+  const status = (error as { status?: unknown }).status;
+  if (status === 429 || /RESOURCE_EXHAUSTED|rate limit/i.test(error.message)) return true;
+  return error.cause instanceof Error && isRateLimitError(error.cause);
+}
+
+/**
+ * Computes the delay before the given attempt (0-based): exponential growth from
+ * minIntervalMs capped at maxIntervalMs, with "equal jitter" so the result lies
+ * between half and all of the capped delay, and never below minIntervalMs.
+ */
+export function computeBackoffDelay(
+  attempt: number,
+  config: PollingConfig,
+  random: () => number = Math.random
+): number {
+  const capped = Math.min(config.maxIntervalMs, config.minIntervalMs * Math.pow(config.multiplier, attempt));
+  const floor = Math.min(capped, Math.max(config.minIntervalMs, capped / 2));
+  return Math.round(floor + random() * (capped - floor));
+}
+
+export interface RetryOptions {
+  config?: PollingConfig;
+  signal?: AbortSignal;
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+}
+
+/**
+ * Runs fn, retrying retryable errors with jittered exponential backoff.
+ * Fatal errors, and retryable ones past maxRetries, are rethrown.
+ */
+export async function withRetry<T>(fn: () => Promise<T>, options: RetryOptions = {}): Promise<T> {
+  const config = options.config ?? DEFAULT_POLLING_CONFIG;
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error: unknown) {
+      if (attempt >= config.maxRetries || !isRetryableError(error)) {
+        throw error;
+      }
+      const delayMs = computeBackoffDelay(attempt, config);
+      options.onRetry?.(error, attempt + 1, delayMs);
+      await setTimeout(delayMs, undefined, { signal: options.signal });
+    }
+  }
+}
+
+export type PollResult<T> =
+  | { status: 'done'; value: T }
+  | { status: 'timeout'; value?: T }
+  | { status: 'aborted'; value?: T };
+
+export interface PollOptions<T> extends RetryOptions {
+  /** Returns true once the polled value is final */
+  isDone: (value: T) => boolean;
+  /** Maximum total time to wait in milliseconds */
+  timeoutMs: number;
+  /** Called with every successfully fetched value, including the final one */
+  onPoll?: (value: T) => void | Promise<void>;
+}
+
+/**
+ * Repeatedly calls fetch until isDone returns true, the timeout elapses or the signal
+ * aborts. The interval grows with jittered exponential backoff; retryable fetch errors
+ * are retried up to maxRetries consecutive times, fatal errors are rethrown.
+ */
+export async function pollUntil<T>(fetch: () => Promise<T>, options: PollOptions<T>): Promise<PollResult<T>> {
+  const config = options.config ?? DEFAULT_POLLING_CONFIG;
+  const deadline = Date.now() + options.timeoutMs;
+  let pollCount = 0;
+  let consecutiveErrors = 0;
+  let lastValue: T | undefined;
+
+  while (Date.now() < deadline) {
+    if (options.signal?.aborted) {
+      return { status: 'aborted', value: lastValue };
+    }
+
+    let delayMs: number;
+    try {
+      lastValue = await fetch();
+      consecutiveErrors = 0;
+      await options.onPoll?.(lastValue);
+      if (options.isDone(lastValue)) {
+        return { status: 'done', value: lastValue };
+      }
+      delayMs = computeBackoffDelay(pollCount++, config);
+    } catch (error: unknown) {
+      if (consecutiveErrors >= config.maxRetries || !isRetryableError(error)) {
+        throw error;
+      }
+      delayMs = computeBackoffDelay(consecutiveErrors++, config);
+      options.onRetry?.(error, consecutiveErrors, delayMs);
+    }
+
+    const remainingMs = deadline - Date.now();
+    if (remainingMs <= 0) break;
+    try {
+      await setTimeout(Math.min(delayMs, remainingMs), undefined, { signal: options.signal });
+    } catch (_error) {
+      return { status: 'aborted', value: lastValue };
+    }
+  }
+
+  return { status: 'timeout', value: lastValue };
+}
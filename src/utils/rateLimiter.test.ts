@@ -0,0 +1,56 @@
+import { describe, it, expect } from '@jest/globals';
+import { TokenBucket } from './rateLimiter';
+
+// A fake clock that sleeping advances, so waits are instant and observable
+function fakeClock(): { now: () => number; sleep: (ms: number) => Promise<void>; sleeps: number[] } {
+  let time = 0;
+  const sleeps: number[] = [];
+  return {
+    now: (): number => time,
+    sleep: async (ms: number): Promise<void> => {
+      sleeps.push(ms);
+      time += ms;
+    },
+    sleeps,
+  };
+}
+
+describe('TokenBucket', () => {
+  it('should allow a burst up to capacity, then pace callers at the rate', async () => {
+    const clock = fakeClock();
+    const bucket = new TokenBucket(2, { capacity: 2, now: clock.now, sleep: clock.sleep });
+
+    await bucket.acquire();
+    await bucket.acquire();
+    expect(clock.sleeps).toEqual([]);
+
+    await bucket.acquire();
+    expect(clock.sleeps).toEqual([500]);
+  });
+
+  it('should hold callers back while paused and drop the saved burst', async () => {
+    const clock = fakeClock();
+    const bucket = new TokenBucket(1, { capacity: 5, now: clock.now, sleep: clock.sleep });
+
+    bucket.pause(3000);
+    await bucket.acquire();
+
+    expect(clock.sleeps).toEqual([3000]);
+    expect(clock.now()).toBe(3000);
+  });
+
+  it('should reject waiting callers once the signal aborts', async () => {
+    const controller = new AbortController();
+    const bucket = new TokenBucket(1, { capacity: 1 });
+    await bucket.acquire();
+
+    const waiting = bucket.acquire(controller.signal);
+    controller.abort();
+
+    await expect(waiting).rejects.toThrow();
+  });
+
+  it('should reject a non-positive rate', () => {
+    expect(() => new TokenBucket(0)).toThrow('Rate must be positive: 0');
+  });
+});
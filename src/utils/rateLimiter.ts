@@ -0,0 +1,69 @@
+import { setTimeout } from 'timers/promises';
+
+export interface TokenBucketOptions {
+  /** Tokens available at once; defaults to one second's worth, at least 1 */
+  capacity?: number;
+  now?: () => number;
+  sleep?: (ms: number, signal?: AbortSignal) => Promise<void>;
+}
+
+const defaultSleep = (ms: number, signal?: AbortSignal): Promise<void> => setTimeout(ms, undefined, { signal });
+
+/**
+ * Token bucket rate limiter: tokens refill continuously at ratePerSecond up to the
+ * capacity, and each acquire() takes one, waiting if none is left. pause() holds
+ * every caller back, e.g. after the server answered 429.
+ */
+export class TokenBucket {
+  private readonly capacity: number;
+  private readonly now: () => number;
+  private readonly sleep: (ms: number, signal?: AbortSignal) => Promise<void>;
+  private tokens: number;
+  private lastRefill: number;
+  private pausedUntil = 0;
+
+  constructor(
+    private readonly ratePerSecond: number,
+    options: TokenBucketOptions = {}
+  ) {
+    if (!(ratePerSecond > 0)) {
+      throw new Error(`Rate must be positive: ${ratePerSecond}`);
+    }
+    this.capacity = Math.max(1, options.capacity ?? ratePerSecond);
+    this.now = options.now ?? Date.now;
+    this.sleep = options.sleep ?? defaultSleep;
+    this.tokens = this.capacity;
+    this.lastRefill = this.now();
+  }
+
+  /**
+   * Waits for a token. Rejects if the signal aborts while waiting.
+   */
+  async acquire(signal?: AbortSignal): Promise<void> {
+    for (;;) {
+      signal?.throwIfAborted();
+      const now = this.now();
+      this.tokens = Math.min(this.capacity, this.tokens + ((now - this.lastRefill) / 1000) * this.ratePerSecond);
+      this.lastRefill = now;
+
+      if (now < this.pausedUntil) {
+        await this.sleep(this.pausedUntil - now, signal);
+        continue;
+      }
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+      await this.sleep(Math.ceil(((1 - this.tokens) / this.ratePerSecond) * 1000), signal);
+    }
+  }
+
+  /**
+   * Hands out no tokens for the next delayMs, and drops any saved-up burst so callers
+   * resume at the steady rate.
+   */
+  pause(delayMs: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, this.now() + delayMs);
+    this.tokens = Math.min(this.tokens, 0);
+  }
+}